@@ -0,0 +1,87 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { enrichmentPriority, getOrCreateUser, prepareAnalyzeRequest, runAnalysis } from "../../lib/analysis";
+import { ERROR_CATALOG, errorBody, errorCodeOf, sendError, sendUnexpectedError } from "../../lib/errors";
+import { createSharedCompFetchers } from "../../lib/valuation";
+import { mapWithConcurrency } from "../../lib/util";
+import type { Stores, UserRow } from "../../lib/stores";
+import { defaultStores, storesConfigured } from "../../lib/stores";
+
+const MAX_BATCH_ITEMS = 50;
+const BATCH_CONCURRENCY = 4;
+
+/**
+ * ===== BATCH HANDLER =====
+ * POST { items: AnalyzeRequest[] } -> { results: [{ index, ok, status, ... }] }
+ * Items with the same search/sold query share one comp fetch.
+ */
+export function createAnalyzeBatchHandler(stores: Stores = defaultStores()) {
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+      // CORS
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type, x-device-id");
+
+      if (req.method === "OPTIONS") return res.status(204).end();
+      if (req.method !== "POST") return sendError(res, "METHOD_NOT_ALLOWED");
+
+      if (!storesConfigured()) {
+        return sendError(res, "SERVER_MISCONFIGURED");
+      }
+
+      const noCache = String((req.query as any)?.nocache || "") === "1";
+
+      const deviceIdHeader = req.headers["x-device-id"];
+      const deviceId = typeof deviceIdHeader === "string" ? deviceIdHeader : null;
+      if (!deviceId) return sendError(res, "MISSING_DEVICE_ID");
+
+      const items = (req.body as any)?.items as any[];
+      if (!Array.isArray(items) || !items.length) {
+        return sendError(res, "INVALID_REQUEST", {
+          details: [{ field: "items", code: "INVALID_REQUEST", message: "items must be a non-empty array." }],
+        });
+      }
+      if (items.length > MAX_BATCH_ITEMS) {
+        return sendError(res, "INVALID_REQUEST", {
+          details: [{ field: "items", code: "INVALID_REQUEST", message: `At most ${MAX_BATCH_ITEMS} items.` }],
+        });
+      }
+
+      // created on first use, so a batch of invalid items stores nothing (see analyze.ts)
+      let user: Promise<UserRow> | null = null;
+      const loadUser = () => (user ||= getOrCreateUser(deviceId, stores.users));
+      const priority = enrichmentPriority(loadUser, stores.users);
+      const fetchers = createSharedCompFetchers();
+
+      const results = await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item, index) => {
+        try {
+          const prepared = await prepareAnalyzeRequest(item, priority, stores);
+          if (prepared.ok === false) return { index, ok: false, status: prepared.outcome.status, ...prepared.outcome.body };
+          const { body, source, category, enrichment } = prepared;
+
+          const outcome = await runAnalysis(body, source, {
+            user: await loadUser(),
+            category,
+            noCache,
+            fetchers,
+            enrichment,
+            stores,
+          });
+          return outcome.status === 200
+            ? { index, ok: true, status: 200, ...outcome.body }
+            : { index, ok: false, status: outcome.status, ...outcome.body };
+        } catch (err: any) {
+          console.error("Batch item crash:", err);
+          const code = errorCodeOf(err);
+          return { index, ok: false, status: ERROR_CATALOG[code].status, ...errorBody(code) };
+        }
+      });
+
+      return res.status(200).json({ results });
+    } catch (err: any) {
+      return sendUnexpectedError(res, err);
+    }
+  };
+}
+
+export default createAnalyzeBatchHandler();
@@ -0,0 +1,28 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from "../../lib/supabase";
+import { sendError, sendUnexpectedError } from "../../lib/errors";
+import { refreshFxRates } from "../../lib/fx";
+
+const CRON_SECRET = process.env.CRON_SECRET || "";
+
+/**
+ * ===== FX REFRESH (Vercel cron) =====
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET" && req.method !== "POST") {
+      return sendError(res, "METHOD_NOT_ALLOWED");
+    }
+    // no secret configured = nobody may trigger it
+    if (!CRON_SECRET) return sendError(res, "SERVER_MISCONFIGURED");
+    if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) return sendError(res, "UNAUTHORIZED");
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return sendError(res, "SERVER_MISCONFIGURED");
+    }
+
+    const table = await refreshFxRates();
+    return res.status(200).json({ asOf: table.asOf, currencies: Object.keys(table.rates).length });
+  } catch (err: any) {
+    return sendUnexpectedError(res, err, "FX refresh failed");
+  }
+}
@@ -0,0 +1,116 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from "../../lib/supabase";
+import { sendError, sendUnexpectedError } from "../../lib/errors";
+import type { SizeUnit } from "../../lib/attributes";
+import { sizeLabelFrom } from "../../lib/attributes";
+import { resolveGrade } from "../../lib/condition";
+import type { CategoryId } from "../../lib/categories";
+import { categoryFromHint, categoryOf, resolveCategory } from "../../lib/categories";
+import { fetchPriceHistory, modelIdentity } from "../../lib/history";
+import { fxRate, loadFxTable } from "../../lib/fx";
+import { median } from "../../lib/stats";
+import { marketplaceById } from "../../lib/marketplaces";
+
+/**
+ * ===== PRICE HISTORY ROUTE =====
+ * GET ?brand=&model=&size=&material= (or ?title=) [&condition=&category=&marketplaceId=&days=&currency=]
+ * -> daily median market values for that model.
+ */
+// unit a bare numeric ?size= is read in
+const MANUAL_SIZE_UNIT: Record<CategoryId, SizeUnit | null> = {
+  bags: "cm",
+  watches: "mm",
+  sneakers: "us",
+  jewelry: null,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    // CORS
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, x-device-id");
+
+    if (req.method === "OPTIONS") return res.status(204).end();
+    if (req.method !== "GET") return sendError(res, "METHOD_NOT_ALLOWED");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return sendError(res, "SERVER_MISCONFIGURED");
+    }
+
+    const q = (req.query || {}) as Record<string, string>;
+    const str = (k: string) => (typeof q[k] === "string" ? q[k].trim() : "");
+
+    const category =
+      categoryFromHint(str("category")) ||
+      resolveCategory({ title: str("title"), brand: str("brand"), categoryHint: "" }) ||
+      categoryOf({});
+
+    const numericSize = /^\d+(\.5)?$/.test(str("size"));
+    const fromTitle = str("title") ? category.extractAttributes(str("title"), str("brand")) : null;
+    const identity = modelIdentity({
+      category: category.id,
+      brand: fromTitle?.brand || str("brand") || null,
+      model: fromTitle?.model || str("model") || null,
+      size: fromTitle?.size || {
+        value: numericSize ? Number(str("size")) : null,
+        unit: numericSize ? MANUAL_SIZE_UNIT[category.id] : null,
+        label: numericSize ? null : sizeLabelFrom(str("size")),
+      },
+      material: fromTitle?.material || str("material") || null,
+      // series are per condition grade (values are condition-adjusted)
+      condition: resolveGrade(str("condition"), str("title")).grade,
+    });
+    if (!identity) {
+      return sendError(res, "INVALID_REQUEST", {
+        details: [{ field: "brand", code: "INVALID_REQUEST", message: "brand + model (or a title they can be detected from) are required." }],
+      });
+    }
+
+    const days = Math.min(Math.max(Number(str("days")) || 365, 1), 730);
+    const marketplaceId = str("marketplaceId").toUpperCase() || undefined;
+    if (marketplaceId && !marketplaceById(marketplaceId)) {
+      return sendError(res, "UNSUPPORTED_MARKETPLACE", {
+        details: [{ field: "marketplaceId", code: "UNSUPPORTED_MARKETPLACE", message: `Unknown marketplaceId: ${marketplaceId}` }],
+      });
+    }
+
+    const rows = await fetchPriceHistory({ identity, marketplaceId, days });
+
+    // one currency per chart: requested, else the marketplace's, else the latest row's
+    const currency = (
+      str("currency") ||
+      (marketplaceId ? marketplaceById(marketplaceId)?.currency : "") ||
+      rows[rows.length - 1]?.currency ||
+      "USD"
+    ).toUpperCase();
+    const fx = await loadFxTable();
+
+    const byDay = new Map<string, { values: number[]; lows: number[]; highs: number[] }>();
+    for (const r of rows) {
+      const rate = r.currency.toUpperCase() === currency ? 1 : fxRate(fx, r.currency, currency);
+      if (rate == null) continue;
+
+      const day = r.recorded_at.slice(0, 10);
+      const b = byDay.get(day) || { values: [], lows: [], highs: [] };
+      b.values.push(Number(r.market_value) * rate);
+      if (r.range_low != null) b.lows.push(Number(r.range_low) * rate);
+      if (r.range_high != null) b.highs.push(Number(r.range_high) * rate);
+      byDay.set(day, b);
+    }
+
+    const points = Array.from(byDay.entries()).map(([date, b]) => ({
+      date,
+      marketValue: Math.round(median(b.values)),
+      low: b.lows.length ? Math.round(median(b.lows)) : null,
+      high: b.highs.length ? Math.round(median(b.highs)) : null,
+      samples: b.values.length,
+    }));
+
+    return res.status(200).json({
+      data: { identity, marketplaceId: marketplaceId || null, currency, days, points },
+    });
+  } catch (err: any) {
+    return sendUnexpectedError(res, err);
+  }
+}
@@ -0,0 +1,32 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { sendError, sendUnexpectedError } from "../../lib/errors";
+import { upstreamBudgetStatus } from "../../lib/budget";
+import { storesConfigured } from "../../lib/stores";
+
+const CRON_SECRET = process.env.CRON_SECRET || "";
+
+/**
+ * ===== UPSTREAM STATUS ROUTE =====
+ * GET -> today's eBay call budget and circuit state per service.
+ * Operators only (Authorization: Bearer CRON_SECRET); no CORS, and refused
+ * outright while no secret is configured.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET") return sendError(res, "METHOD_NOT_ALLOWED");
+    if (!CRON_SECRET) return sendError(res, "SERVER_MISCONFIGURED");
+    if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) return sendError(res, "UNAUTHORIZED");
+
+    if (!storesConfigured()) {
+      return sendError(res, "SERVER_MISCONFIGURED");
+    }
+
+    const services = await upstreamBudgetStatus();
+    const degraded = services.some((s) => s.circuit === "open" || s.remaining === 0);
+
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).json({ data: { degraded, services } });
+  } catch (err: any) {
+    return sendUnexpectedError(res, err);
+  }
+}
@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from "../../lib/supabase";
+import { errorCodeOf, sendError, sendUnexpectedError } from "../../lib/errors";
+import { checkWatch, dueWatches } from "../../lib/watchlist";
+import { createSharedCompFetchers } from "../../lib/valuation";
+
+const CRON_SECRET = process.env.CRON_SECRET || "";
+const WATCHES_PER_RUN = 40;
+
+/**
+ * ===== WATCHLIST RE-EVALUATION (Vercel cron) =====
+ * Least recently checked watches first; each re-check is charged to its owner
+ * (lib/watchlist checkWatch).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET" && req.method !== "POST") {
+      return sendError(res, "METHOD_NOT_ALLOWED");
+    }
+    // no secret configured = nobody may trigger it
+    if (!CRON_SECRET) return sendError(res, "SERVER_MISCONFIGURED");
+    if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) return sendError(res, "UNAUTHORIZED");
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return sendError(res, "SERVER_MISCONFIGURED");
+    }
+
+    const watches = await dueWatches(WATCHES_PER_RUN);
+    const fetchers = createSharedCompFetchers();
+
+    const results = [];
+    for (const w of watches) {
+      try {
+        results.push(await checkWatch(w, fetchers));
+      } catch (e: any) {
+        console.error(`watch ${w.id} check failed:`, e);
+        results.push({ watchId: w.id, code: errorCodeOf(e) });
+      }
+    }
+
+    return res.status(200).json({
+      checked: results.length,
+      alerts: results.filter((r: any) => r.alerts?.length).length,
+      results,
+    });
+  } catch (err: any) {
+    return sendUnexpectedError(res, err, "Watchlist check failed");
+  }
+}
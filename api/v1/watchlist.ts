@@ -0,0 +1,80 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from "../../lib/supabase";
+import { enrichmentPriority, getOrCreateUser, prepareAnalyzeRequest } from "../../lib/analysis";
+import { sendError, sendUnexpectedError } from "../../lib/errors";
+import { listWatches, MAX_WATCHES_PER_DEVICE, removeWatch, upsertWatch, watchListingKey } from "../../lib/watchlist";
+import { publicHttpsUrlProblem } from "../../lib/egress";
+import type { UserRow } from "../../lib/stores";
+
+/**
+ * ===== WATCHLIST ROUTE =====
+ * GET -> watches for x-device-id
+ * POST { request: AnalyzeRequest, webhookUrl? } -> add / update (same listing)
+ * DELETE ?id= -> remove
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    // CORS
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, x-device-id");
+
+    if (req.method === "OPTIONS") return res.status(204).end();
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return sendError(res, "SERVER_MISCONFIGURED");
+    }
+
+    const deviceIdHeader = req.headers["x-device-id"];
+    const deviceId = typeof deviceIdHeader === "string" ? deviceIdHeader : null;
+    if (!deviceId) return sendError(res, "MISSING_DEVICE_ID");
+
+    if (req.method === "GET") {
+      return res.status(200).json({ data: { watches: await listWatches(deviceId) } });
+    }
+
+    if (req.method === "DELETE") {
+      const id = Number((req.query as any)?.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return sendError(res, "INVALID_REQUEST", {
+          details: [{ field: "id", code: "INVALID_REQUEST", message: "id must be a positive integer." }],
+        });
+      }
+      if (!(await removeWatch(deviceId, id))) return sendError(res, "NOT_FOUND");
+      return res.status(200).json({ data: { removed: id } });
+    }
+
+    if (req.method !== "POST") return sendError(res, "METHOD_NOT_ALLOWED");
+
+    // user created on first use, so an invalid request stores nothing (see analyze.ts)
+    let user: Promise<UserRow> | null = null;
+    const loadUser = () => (user ||= getOrCreateUser(deviceId));
+    const prepared = await prepareAnalyzeRequest((req.body as any)?.request, enrichmentPriority(loadUser));
+    if (prepared.ok === false) return res.status(prepared.outcome.status).json(prepared.outcome.body);
+    const { body, source } = prepared;
+
+    const webhookUrl = (req.body as any)?.webhookUrl;
+    const webhookProblem = webhookUrl != null ? await publicHttpsUrlProblem(String(webhookUrl)) : null;
+    if (webhookProblem) {
+      return sendError(res, "INVALID_REQUEST", {
+        details: [
+          { field: "webhookUrl", code: "INVALID_URL", message: `webhookUrl must be a public https URL (${webhookProblem}).` },
+        ],
+      });
+    }
+
+    await loadUser();
+
+    const request = { ...body, source: source.id };
+    const key = watchListingKey(request);
+    const existing = await listWatches(deviceId);
+    if (existing.length >= MAX_WATCHES_PER_DEVICE && !existing.some((w) => w.listing_key === key)) {
+      return sendError(res, "WATCHLIST_FULL", { max: MAX_WATCHES_PER_DEVICE });
+    }
+
+    const watch = await upsertWatch(deviceId, request, webhookUrl || null);
+    return res.status(200).json({ data: { watch } });
+  } catch (err: any) {
+    return sendUnexpectedError(res, err);
+  }
+}
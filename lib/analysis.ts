@@ -0,0 +1,262 @@
+import type { AnalyzeRequest } from "./types";
+import type { SourceAdapter } from "./sources";
+import { detectSourceFromUrl, getSourceAdapter, supportedSourceIds } from "./sources";
+import { sha256 } from "./util";
+import type { CreditState } from "./credits";
+import { creditsSnapshot, debitCredits, planFor, refundCredits } from "./credits";
+import type { CompFetchers } from "./valuation";
+import { computeValuation, directCompFetchers, withUpstreamPriority } from "./valuation";
+import type { CategoryPlugin } from "./categories";
+import { resolveCategory, supportedCategoryIds } from "./categories";
+import { recordPriceHistory } from "./history";
+import type { Enrichment } from "./enrich";
+import { enrichAnalyzeRequest } from "./enrich";
+import { profitForValuation } from "./profit";
+import type { ErrorCode, FieldIssue, UpstreamError } from "./errors";
+import { ERROR_CATALOG, errorBody } from "./errors";
+import { validateAnalyzeFields } from "./validation";
+import { DEGRADED_CACHE_TTL_MS, isDegraded } from "./degraded";
+import type { UpstreamPriority } from "./budget";
+import { priorityForPlan } from "./budget";
+import { assignScoringConfig } from "./scoring";
+import type { CompsCacheReport } from "./compcache";
+import { withCompsCache } from "./compcache";
+import type { Stores, UserRow, UserStore } from "./stores";
+import { defaultStores } from "./stores";
+
+/**
+ * ===== ANALYSIS (request level: validation, user, cache, credits) =====
+ * Shared by /api/v1/analyze and /api/v1/analyze-batch.
+ */
+export type AnalysisOutcome = {
+  status: number;
+  body: any;
+  headers?: Record<string, string>;
+};
+
+const RESPONSE_CACHE_TTL_MS = 1000 * 60 * 60 * 24;
+
+// body.cache: which cache tier answered (response = whole result, comps = raw comp sets)
+export type CacheReport = { response: "hit" | "miss" | "bypass"; comps: CompsCacheReport };
+
+function failure(code: ErrorCode, details?: FieldIssue[]): { ok: false; outcome: AnalysisOutcome } {
+  return { ok: false, outcome: { status: ERROR_CATALOG[code].status, body: errorBody(code, details ? { details } : {}) } };
+}
+
+// top-level code = first issue's code; all issues in details
+function invalid(issues: FieldIssue[]) {
+  return failure(issues[0].code, issues);
+}
+
+export function validateAnalyzeRequest(
+  raw: any
+):
+  | { ok: true; source: SourceAdapter; body: AnalyzeRequest; category: CategoryPlugin }
+  | { ok: false; outcome: AnalysisOutcome } {
+  const checked = validateAnalyzeFields(raw, { requireListing: true });
+  if (checked.ok === false) return invalid(checked.issues);
+  const body = checked.body;
+
+  // Source: explicit `source`, else detected from the pasted URL
+  const source = body.source ? getSourceAdapter(body.source) : detectSourceFromUrl(body.url || "");
+  if (!source) {
+    return invalid([
+      { field: "url", code: "UNSUPPORTED_SOURCE", message: `Supported: ${supportedSourceIds().join(", ")}.` },
+    ]);
+  }
+  const unsupported = source.parseUrl(body.url || "").unsupported;
+  if (unsupported) return invalid([{ field: "url", code: "UNSUPPORTED_MARKETPLACE", message: unsupported }]);
+
+  // Category: categoryHint, else detected from the title; resolved once, reused downstream
+  const category = resolveCategory(body);
+  if (!category) {
+    return invalid([
+      {
+        field: "categoryHint",
+        code: "UNSUPPORTED_CATEGORY",
+        message: `Supported: ${supportedCategoryIds().join(", ")}.`,
+      },
+    ]);
+  }
+
+  return { ok: true, source, body, category };
+}
+
+/**
+ * Schema (lenient) -> eBay enrichment -> full validation.
+ * `priority` may be deferred (enrichmentPriority): it is only resolved (the user row
+ * loaded, the allowance checked) when enrichment actually calls eBay, so invalid
+ * requests never get that far.
+ */
+export async function prepareAnalyzeRequest(
+  raw: any,
+  priority: UpstreamPriority | (() => Promise<UpstreamPriority>) = "free",
+  stores: Stores = defaultStores()
+): Promise<
+  | { ok: true; source: SourceAdapter; body: AnalyzeRequest; category: CategoryPlugin; enrichment: Enrichment | null }
+  | { ok: false; outcome: AnalysisOutcome }
+> {
+  const shape = validateAnalyzeFields(raw, { requireListing: false });
+  if (shape.ok === false) return invalid(shape.issues);
+
+  // eBay itemId / URL -> fill in and verify from the listing
+  const { body, enrichment } = await enrichAnalyzeRequest(shape.body, priority, stores);
+
+  const valid = validateAnalyzeRequest(body);
+  // an itemId-only request has nothing to value without the listing
+  if (valid.ok === false && enrichment?.error === "CREDITS_EXHAUSTED") return failure("CREDITS_EXHAUSTED");
+  if (valid.ok === false) return valid;
+  return { ...valid, enrichment };
+}
+
+export async function getOrCreateUser(deviceId: string, users: UserStore = defaultStores().users): Promise<UserRow> {
+  return users.getOrCreate(deviceId);
+}
+
+/**
+ * Deferred priority for prepareAnalyzeRequest. The eBay item lookup is refused
+ * (enrichment falls back to the client's fields) when the user could not pay for
+ * an analysis, so an exhausted allowance never spends upstream quota.
+ */
+export function enrichmentPriority(
+  loadUser: () => Promise<UserRow>,
+  users: UserStore = defaultStores().users
+): () => Promise<UpstreamPriority> {
+  return async () => {
+    // re-read: a batch spends the allowance item by item
+    const user = await users.getOrCreate((await loadUser()).device_id);
+    const credits = creditsSnapshot(user);
+    if (credits.allowanceRemaining + credits.remaining < planFor(user.plan).analysisCost) {
+      const err = new Error("eBay item lookup refused: out of credits") as UpstreamError;
+      err.code = "CREDITS_EXHAUSTED";
+      err.upstreamStatus = null;
+      throw err;
+    }
+    return priorityForPlan(user.plan);
+  };
+}
+
+/**
+ * 402 + Retry-After (seconds until the plan allowance resets)
+ */
+function creditsExhausted(credits: CreditState): AnalysisOutcome {
+  const retryAfter = Math.max(Math.ceil((new Date(credits.resetsAt).getTime() - Date.now()) / 1000), 1);
+  return {
+    status: 402,
+    headers: { "Retry-After": String(retryAfter) },
+    body: errorBody("CREDITS_EXHAUSTED", { credits }),
+  };
+}
+
+export async function runAnalysis(
+  body: AnalyzeRequest,
+  source: SourceAdapter,
+  ctx: {
+    user: UserRow;
+    category: CategoryPlugin;
+    noCache: boolean;
+    fetchers?: CompFetchers;
+    enrichment?: Enrichment | null;
+    stores?: Stores;
+  }
+): Promise<AnalysisOutcome> {
+  const { user, category, noCache } = ctx;
+  const enrichment = ctx.enrichment || null;
+  const stores = ctx.stores || defaultStores();
+
+  // Cache key
+  const listing = source.parseUrl(body.url);
+  const itemKey = body.itemId || listing.itemId || body.url;
+  // A/B arms must not share cached results
+  const scoring = await assignScoringConfig(user?.device_id);
+  const cacheKey = sha256(
+    `sold-only-market-active-resale-v3:${source.id}:${category.id}:${scoring.config.version}:${itemKey}:${body.title}:${body.price.amount}:${body.price.currency}:${
+      body.cacheBuster || ""
+    }`
+  );
+
+  // Read cache (unless nocache=1)
+  const now = new Date();
+  if (!noCache) {
+    const cached = await stores.cache.get(cacheKey);
+
+    const cacheValid = cached?.expiresAt && new Date(cached.expiresAt).getTime() > now.getTime();
+    if (cacheValid && cached?.value) {
+      const cost = planFor(user?.plan).cachedHitCost;
+      let credits = creditsSnapshot(user);
+      if (cost > 0) {
+        const debit = await debitCredits(user, { cost, reason: "cached_hit", ref: cacheKey }, stores.users);
+        if (!debit.ok) return creditsExhausted(debit.credits);
+        credits = debit.credits;
+      }
+
+      const value = cached.value as any;
+      const profit = await profitForValuation(value.data, body, enrichment);
+      const cache: CacheReport = { response: "hit", comps: { active: "skipped", sold: "skipped" } };
+      return {
+        status: 200,
+        body: { ...value, data: { ...value.data, profit, credits, enrichment }, cached: true, cache },
+      };
+    }
+  }
+
+  // Charge before any upstream call
+  const debit = await debitCredits(
+    user,
+    { cost: planFor(user?.plan).analysisCost, reason: "analysis", ref: cacheKey },
+    stores.users
+  );
+  if (!debit.ok) return creditsExhausted(debit.credits);
+
+  // same model / query from another listing (or another price) -> comps come from the second tier
+  const comps = withCompsCache(
+    withUpstreamPriority(ctx.fetchers || directCompFetchers, priorityForPlan(user?.plan), stores.cooldowns),
+    stores.cache,
+    { bypass: noCache }
+  );
+
+  try {
+    const payload = await computeValuation(
+      body,
+      source,
+      comps.fetchers,
+      enrichment?.listing?.seller || null,
+      scoring,
+      category
+    );
+
+    // heuristic estimates are derived from the asking price; keep them out of the history
+    if (String(payload.estimate?.method || "").startsWith("sold-comps")) {
+      await recordPriceHistory({
+        attributes: payload.attributes,
+        condition: payload.condition?.grade ?? null,
+        marketplaceId: payload.meta.marketplaceId,
+        source: source.id,
+        estimate: payload.estimate,
+      });
+    }
+
+    // a failed eBay lookup still lets the analysis run on the client's fields
+    const sources = {
+      ...payload.sources,
+      ...(enrichment
+        ? { enrichment: enrichment.status === "ok" ? { status: "ok" } : { status: "error", code: enrichment.error } }
+        : {}),
+    };
+    const degraded = isDegraded(sources);
+
+    const responseBody = { data: { ...payload, degraded, sources, credits: debit.credits, enrichment }, cached: false };
+    const profit = await profitForValuation(payload, body, enrichment);
+
+    // cache write: 24h, but degraded results expire quickly so the next request retries upstream
+    const expiresAt = new Date(Date.now() + (degraded ? DEGRADED_CACHE_TTL_MS : RESPONSE_CACHE_TTL_MS));
+    await stores.cache.set(cacheKey, responseBody, expiresAt);
+
+    const cache: CacheReport = { response: noCache ? "bypass" : "miss", comps: comps.report() };
+    return { status: 200, body: { ...responseBody, data: { ...responseBody.data, profit }, cache } };
+  } catch (err) {
+    // the analysis this debit paid for never happened
+    if (debit.ledgerId != null) await refundCredits(debit.ledgerId, stores.users);
+    throw err;
+  }
+}
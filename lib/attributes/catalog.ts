@@ -0,0 +1,211 @@
+/**
+ * ===== BRAND / MODEL CATALOG (bags) =====
+ * Data only: extend by adding rows. Aliases are matched on normalize()d text.
+ * Other categories keep their catalogs next to their plugin (lib/categories).
+ */
+export type SizeLabel = "NANO" | "MINI" | "BB" | "PM" | "MM" | "GM";
+
+export type CatalogModel = {
+  name: string;
+  aliases: string[];
+  // known sizes in cm (matched against bare numbers in the title)
+  sizesCm?: number[];
+  // models sold as PM/MM/GM etc.
+  sizeLabels?: SizeLabel[];
+  // reference / style-code prefixes that identify the model without its name
+  references?: string[];
+};
+
+export type CatalogBrand = {
+  name: string;
+  aliases: string[];
+  // date code decoder in attributes/index.ts
+  dateCodeScheme?: "lv" | "hermes-stamp";
+  models: CatalogModel[];
+};
+
+export const BRAND_CATALOG: CatalogBrand[] = [
+  {
+    name: "Hermès",
+    aliases: ["hermes"],
+    dateCodeScheme: "hermes-stamp",
+    models: [
+      { name: "Birkin", aliases: ["birkin"], sizesCm: [25, 30, 35, 40] },
+      { name: "Kelly", aliases: ["kelly"], sizesCm: [20, 25, 28, 32, 35, 40] },
+      { name: "Constance", aliases: ["constance"], sizesCm: [18, 24] },
+      { name: "Evelyne", aliases: ["evelyne"], sizesCm: [16, 29, 33] },
+      { name: "Picotin", aliases: ["picotin"], sizesCm: [18, 22, 26] },
+      { name: "Lindy", aliases: ["lindy"], sizesCm: [26, 30, 34] },
+      { name: "Garden Party", aliases: ["garden party"], sizesCm: [30, 36] },
+      { name: "Herbag", aliases: ["herbag"], sizesCm: [31, 39] },
+    ],
+  },
+  {
+    name: "Louis Vuitton",
+    aliases: ["louis vuitton", "lv"],
+    dateCodeScheme: "lv",
+    models: [
+      { name: "Neverfull", aliases: ["neverfull"], sizeLabels: ["BB", "PM", "MM", "GM"] },
+      { name: "Speedy", aliases: ["speedy"], sizesCm: [20, 25, 30, 35, 40] },
+      { name: "Alma", aliases: ["alma"], sizeLabels: ["BB", "PM", "MM", "GM"] },
+      { name: "Keepall", aliases: ["keepall"], sizesCm: [45, 50, 55, 60] },
+      { name: "OnTheGo", aliases: ["onthego", "on the go"], sizeLabels: ["PM", "MM", "GM"] },
+      { name: "Pochette Metis", aliases: ["pochette metis"] },
+      { name: "Noe", aliases: ["noe"], sizeLabels: ["BB", "PM", "MM", "GM"] },
+      { name: "Capucines", aliases: ["capucines"], sizeLabels: ["MINI", "BB", "PM", "MM"] },
+      { name: "Favorite", aliases: ["favorite"], sizeLabels: ["PM", "MM"] },
+      { name: "Multi Pochette", aliases: ["multi pochette"] },
+    ],
+  },
+  {
+    name: "Chanel",
+    aliases: ["chanel"],
+    models: [
+      { name: "Classic Flap", aliases: ["classic flap", "timeless", "double flap", "11 12"] },
+      { name: "2.55", aliases: ["2 55", "reissue"] },
+      { name: "Boy", aliases: ["boy bag", "le boy"] },
+      { name: "19", aliases: ["chanel 19"] },
+      { name: "Wallet on Chain", aliases: ["wallet on chain", "woc"] },
+      { name: "Gabrielle", aliases: ["gabrielle"] },
+      { name: "Deauville", aliases: ["deauville"] },
+    ],
+  },
+  {
+    name: "Dior",
+    aliases: ["christian dior", "dior"],
+    models: [
+      { name: "Lady Dior", aliases: ["lady dior"], sizeLabels: ["MINI", "PM", "MM", "GM"] },
+      { name: "Saddle", aliases: ["saddle"] },
+      { name: "Book Tote", aliases: ["book tote"] },
+      { name: "30 Montaigne", aliases: ["30 montaigne", "montaigne"] },
+    ],
+  },
+  {
+    name: "Gucci",
+    aliases: ["gucci"],
+    models: [
+      { name: "Marmont", aliases: ["marmont"] },
+      { name: "Dionysus", aliases: ["dionysus"] },
+      { name: "Jackie", aliases: ["jackie"] },
+      { name: "Horsebit 1955", aliases: ["horsebit 1955", "horsebit"] },
+      { name: "Ophidia", aliases: ["ophidia"] },
+    ],
+  },
+  {
+    name: "Prada",
+    aliases: ["prada"],
+    models: [
+      { name: "Galleria", aliases: ["galleria"] },
+      { name: "Re-Edition", aliases: ["re edition", "re-edition", "reedition"] },
+      { name: "Cleo", aliases: ["cleo"] },
+    ],
+  },
+  {
+    name: "Celine",
+    aliases: ["celine"],
+    models: [
+      { name: "Luggage", aliases: ["luggage"] },
+      { name: "Belt", aliases: ["belt bag"] },
+      { name: "Triomphe", aliases: ["triomphe"] },
+      { name: "Classic Box", aliases: ["classic box", "box bag"] },
+    ],
+  },
+  {
+    name: "Fendi",
+    aliases: ["fendi"],
+    models: [
+      { name: "Baguette", aliases: ["baguette"] },
+      { name: "Peekaboo", aliases: ["peekaboo"] },
+    ],
+  },
+  {
+    name: "Saint Laurent",
+    aliases: ["saint laurent", "ysl", "yves saint laurent"],
+    models: [
+      { name: "Loulou", aliases: ["loulou"] },
+      { name: "Sac de Jour", aliases: ["sac de jour"] },
+      { name: "Kate", aliases: ["kate"] },
+      { name: "Niki", aliases: ["niki"] },
+    ],
+  },
+  {
+    name: "Bottega Veneta",
+    aliases: ["bottega veneta", "bottega"],
+    models: [
+      { name: "Jodie", aliases: ["jodie"] },
+      { name: "Cassette", aliases: ["cassette"] },
+      { name: "Pouch", aliases: ["the pouch", "pouch"] },
+    ],
+  },
+  {
+    name: "Goyard",
+    aliases: ["goyard"],
+    models: [
+      { name: "Saint Louis", aliases: ["saint louis", "st louis"], sizeLabels: ["PM", "GM"] },
+      { name: "Artois", aliases: ["artois"], sizeLabels: ["PM", "MM", "GM"] },
+    ],
+  },
+];
+
+// canonical material -> aliases
+export const MATERIALS: Record<string, string[]> = {
+  epsom: ["epsom", "epson"],
+  togo: ["togo"],
+  clemence: ["clemence", "taurillon clemence"],
+  swift: ["swift"],
+  box: ["box calf"],
+  chevre: ["chevre", "chevre mysore"],
+  barenia: ["barenia"],
+  alligator: ["alligator"],
+  crocodile: ["crocodile", "croc", "porosus", "niloticus"],
+  ostrich: ["ostrich"],
+  lizard: ["lizard"],
+  caviar: ["caviar"],
+  lambskin: ["lambskin", "lamb skin", "agneau"],
+  calfskin: ["calfskin", "calf leather"],
+  "monogram canvas": ["monogram"],
+  "damier ebene": ["damier ebene", "ebene"],
+  "damier azur": ["damier azur", "azur"],
+  empreinte: ["empreinte"],
+  epi: ["epi"],
+  vernis: ["vernis"],
+  patent: ["patent"],
+  suede: ["suede"],
+  tweed: ["tweed"],
+  denim: ["denim"],
+  nylon: ["nylon"],
+  canvas: ["canvas", "toile"],
+};
+
+// canonical color -> aliases (hardware phrases are stripped before matching)
+export const COLORS: Record<string, string[]> = {
+  black: ["black", "noir"],
+  white: ["white", "blanc"],
+  beige: ["beige", "nude", "trench"],
+  brown: ["brown", "chocolate", "marron", "ebene"],
+  tan: ["tan", "camel", "caramel", "fauve"],
+  gold: ["gold color", "gold colour"],
+  etoupe: ["etoupe"],
+  etain: ["etain"],
+  craie: ["craie"],
+  grey: ["grey", "gray", "gris"],
+  red: ["red", "rouge"],
+  burgundy: ["burgundy", "bordeaux"],
+  pink: ["pink", "rose sakura", "rose"],
+  blue: ["blue", "bleu"],
+  navy: ["navy"],
+  green: ["green", "vert"],
+  yellow: ["yellow", "jaune"],
+  orange: ["orange"],
+  purple: ["purple", "violet"],
+};
+
+// canonical hardware -> aliases
+export const HARDWARE: Record<string, string[]> = {
+  "rose gold": ["rghw", "rose gold hardware", "rose gold hw"],
+  gold: ["ghw", "gold hardware", "gold hw", "brushed gold"],
+  palladium: ["phw", "palladium"],
+  silver: ["shw", "silver hardware", "silver hw"],
+  ruthenium: ["ruthenium", "rhw"],
+  permabrass: ["permabrass"],
+};
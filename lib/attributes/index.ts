@@ -0,0 +1,208 @@
+import { normalize } from "../util";
+import type { CategoryId } from "../categories/types";
+import type { CatalogBrand, CatalogModel, SizeLabel } from "./catalog";
+import { BRAND_CATALOG, COLORS, HARDWARE, MATERIALS } from "./catalog";
+
+export type { SizeLabel } from "./catalog";
+
+/**
+ * ===== LISTING ATTRIBUTES =====
+ * One shape for every category; each category plugin fills what it knows.
+ */
+// cm: bag width / bracelet length, mm: watch case, us / eu: shoe or ring size
+export type SizeUnit = "cm" | "mm" | "us" | "eu";
+
+export type SizeSpec = { value: number | null; unit: SizeUnit | null; label: SizeLabel | null };
+
+export type ListingAttributes = {
+  category: CategoryId;
+  brand: string | null;
+  model: string | null;
+  // watch reference / sneaker style code
+  reference: string | null;
+  size: SizeSpec;
+  material: string | null;
+  color: string | null;
+  hardware: string | null;
+  year: number | null;
+  dateCode: string | null;
+};
+
+const SIZE_LABELS: SizeLabel[] = ["NANO", "MINI", "BB", "PM", "MM", "GM"];
+
+export function sizeLabelFrom(text: string): SizeLabel | null {
+  const up = text.trim().toUpperCase() as SizeLabel;
+  return SIZE_LABELS.includes(up) ? up : null;
+}
+
+// Hermès blind stamp letters, most recent cycle wins
+const HERMES_STAMP_YEARS: Record<string, number> = {
+  E: 2001, F: 2002, G: 2003, H: 2004, I: 2005, J: 2006, L: 2008, M: 2009, N: 2010,
+  O: 2011, P: 2012, Q: 2013, R: 2014, T: 2015, X: 2016, A: 2017, C: 2018, D: 2019,
+  Y: 2020, Z: 2021, U: 2022, B: 2023, W: 2024, K: 2025,
+};
+
+/**
+ * ===== SHARED MATCHERS (used by every category extractor) =====
+ */
+export function hasPhrase(padded: string, phrase: string) {
+  return padded.includes(` ${normalize(phrase)} `);
+}
+
+export function firstMatch(padded: string, table: Record<string, string[]>): string | null {
+  for (const [canonical, aliases] of Object.entries(table)) {
+    if (aliases.some((a) => hasPhrase(padded, a))) return canonical;
+  }
+  return null;
+}
+
+export function detectBrand(padded: string, brandHint: string, catalog: CatalogBrand[]): CatalogBrand | null {
+  const hint = ` ${normalize(brandHint)} `;
+  return (
+    catalog.find((b) => b.aliases.some((a) => hasPhrase(hint, a))) ||
+    catalog.find((b) => b.aliases.some((a) => hasPhrase(padded, a))) ||
+    null
+  );
+}
+
+export function detectModel(
+  padded: string,
+  brand: CatalogBrand | null,
+  catalog: CatalogBrand[]
+): { brand: CatalogBrand | null; model: CatalogModel | null } {
+  const matches = (m: CatalogModel) => m.aliases.some((a) => hasPhrase(padded, a));
+
+  if (brand) return { brand, model: brand.models.find(matches) || null };
+
+  // no brand: only trust distinctive model names
+  for (const b of catalog) {
+    const m = b.models.find((m) => m.aliases.some((a) => a.length >= 5 && hasPhrase(padded, a)));
+    if (m) return { brand: b, model: m };
+  }
+  return { brand: null, model: null };
+}
+
+/**
+ * ===== BAGS =====
+ */
+function detectSize(tokens: string[], model: CatalogModel | null): SizeSpec {
+  let label: SizeLabel | null = null;
+  for (let i = 0; i < tokens.length; i++) {
+    const up = tokens[i].toUpperCase() as SizeLabel;
+    // "30 mm" is millimetres, not MM
+    if (SIZE_LABELS.includes(up) && !/^\d+$/.test(tokens[i - 1] || "")) {
+      label = up;
+      break;
+    }
+  }
+
+  const text = tokens.join(" ");
+  let cm: number | null = null;
+
+  const explicit = text.match(/\b(\d{2})\s*cm\b/);
+  const hermesStyle = text.match(/\b[bk](\d{2})\b/);
+  if (explicit) cm = Number(explicit[1]);
+  else if (hermesStyle && model?.sizesCm?.includes(Number(hermesStyle[1]))) cm = Number(hermesStyle[1]);
+  else if (model?.sizesCm) cm = Number(tokens.find((t) => model.sizesCm.includes(Number(t))) || 0) || null;
+
+  if (cm == null && !model?.sizeLabels) {
+    const generic = text.match(/\b(15|18|20|22|24|25|26|27|28|30|32|33|34|35|36|38|40|41|45)\b/);
+    if (generic) cm = Number(generic[1]);
+  }
+
+  return { value: cm, unit: cm != null ? "cm" : null, label };
+}
+
+function detectDateCode(tokens: string[], brand: CatalogBrand | null): { year: number | null; dateCode: string | null } {
+  const currentYear = new Date().getUTCFullYear();
+
+  if (brand?.dateCodeScheme === "lv") {
+    const code = tokens.find((t) => /^[a-z]{2}\d{4}$/.test(t));
+    if (code) {
+      // year digits are the 2nd and 4th digit in both the pre- and post-2007 formats
+      const yy = Number(code[3] + code[5]);
+      const year = 2000 + yy <= currentYear ? 2000 + yy : 1900 + yy;
+      return { year, dateCode: code.toUpperCase() };
+    }
+  }
+
+  if (brand?.dateCodeScheme === "hermes-stamp") {
+    const i = tokens.findIndex((t) => t === "stamp" || t === "stamped");
+    const letter = [tokens[i + 1], tokens[i - 1]].find((t) => t && /^[a-z]$/.test(t));
+    if (i >= 0 && letter) {
+      const up = letter.toUpperCase();
+      return { year: HERMES_STAMP_YEARS[up] ?? null, dateCode: up };
+    }
+  }
+
+  return { year: null, dateCode: null };
+}
+
+export function detectYear(text: string): number | null {
+  const m = text.match(/\b(19[89]\d|20[0-3]\d)\b/);
+  const year = m ? Number(m[1]) : null;
+  return year && year <= new Date().getUTCFullYear() ? year : null;
+}
+
+function stripHardware(padded: string): string {
+  let out = padded;
+  for (const aliases of Object.values(HARDWARE)) {
+    for (const a of aliases) out = out.split(` ${normalize(a)} `).join(" ");
+  }
+  return out;
+}
+
+/**
+ * One pass over a bag title (+ optional brand hint) -> typed attributes.
+ */
+export function extractBagAttributes(title: string, brandHint = ""): ListingAttributes {
+  const text = normalize(title);
+  const tokens = text.split(" ").filter(Boolean);
+  const padded = ` ${text} `;
+
+  const detected = detectModel(padded, detectBrand(padded, brandHint, BRAND_CATALOG), BRAND_CATALOG);
+  const brand = detected.brand;
+  const model = detected.model;
+  const dated = detectDateCode(tokens, brand);
+
+  return {
+    category: "bags",
+    brand: brand?.name || (brandHint.trim() || null),
+    model: model?.name || null,
+    reference: null,
+    size: detectSize(tokens, model),
+    material: firstMatch(padded, MATERIALS),
+    color: firstMatch(stripHardware(padded), COLORS),
+    hardware: firstMatch(padded, HARDWARE),
+    year: dated.year ?? detectYear(text),
+    dateCode: dated.dateCode,
+  };
+}
+
+/**
+ * ===== CATALOG CHECKS (risk signals) =====
+ */
+// catalog models of *other* brands named in the title ("Chanel Neverfull")
+export function foreignModelMentions(
+  title: string,
+  attrs: ListingAttributes,
+  catalog: CatalogBrand[]
+): { brand: string; model: string }[] {
+  if (!attrs.brand) return [];
+  const padded = ` ${normalize(title)} `;
+  const out: { brand: string; model: string }[] = [];
+  for (const b of catalog) {
+    if (b.name === attrs.brand) continue;
+    for (const m of b.models) {
+      if (m.name === attrs.model) continue;
+      if (m.aliases.some((a) => a.length >= 5 && hasPhrase(padded, a))) out.push({ brand: b.name, model: m.name });
+    }
+  }
+  return out;
+}
+
+// true when the catalog knows sizes for the detected model
+export function modelHasSizes(attrs: ListingAttributes, catalog: CatalogBrand[]): boolean {
+  const m = catalog.find((b) => b.name === attrs.brand)?.models.find((m) => m.name === attrs.model);
+  return !!(m?.sizesCm?.length || m?.sizeLabels?.length);
+}
@@ -0,0 +1,188 @@
+import type { ErrorCode, UpstreamError } from "./errors";
+import { errorCodeOf } from "./errors";
+import { pacificDay } from "./util";
+import type { CooldownStore } from "./stores";
+import { defaultStores } from "./stores";
+
+/**
+ * ===== UPSTREAM BUDGET (CooldownStore: upstream_budget table / in memory) =====
+ * One shared daily call budget + circuit breaker per eBay service, across all
+ * instances. When a service runs low the last PAID_RESERVE_RATIO of its budget
+ * is kept for paid plans.
+ */
+export type UpstreamService = "browse" | "finding" | "insights" | "token";
+export type UpstreamPriority = "paid" | "free";
+
+export const UPSTREAM_SERVICES: UpstreamService[] = ["browse", "finding", "insights", "token"];
+
+const DEFAULT_DAILY_LIMITS: Record<UpstreamService, number> = {
+  browse: 5000,
+  finding: 5000,
+  insights: 5000,
+  token: 1000,
+};
+
+const PAID_RESERVE_RATIO = 0.2;
+
+// breaker: opens on a 429 or FAILURE_THRESHOLD failures in a row; backoff doubles per trip
+const FAILURE_THRESHOLD = 5;
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 60 * 30;
+// half-open admits one probe; if it never reports back another is let through after this
+const PROBE_TIMEOUT_SECONDS = 30;
+
+// EBAY_DAILY_LIMITS: comma-separated overrides, e.g. "browse=10000,finding=2500"
+export function dailyLimits(): Record<UpstreamService, number> {
+  const limits = { ...DEFAULT_DAILY_LIMITS };
+  for (const pair of (process.env.EBAY_DAILY_LIMITS || "").split(",")) {
+    const [k, v] = pair.split("=").map((s) => s.trim().toLowerCase());
+    if (UPSTREAM_SERVICES.includes(k as UpstreamService) && Number(v) > 0) limits[k as UpstreamService] = Number(v);
+  }
+  return limits;
+}
+
+function reserveFor(limit: number): number {
+  return Math.floor(limit * PAID_RESERVE_RATIO);
+}
+
+export function priorityForPlan(plan: string | null | undefined): UpstreamPriority {
+  return plan && plan !== "free" ? "paid" : "free";
+}
+
+/**
+ * ===== GUARD =====
+ */
+const REFUSAL_CODES: Record<string, ErrorCode> = {
+  circuit_open: "UPSTREAM_CIRCUIT_OPEN",
+  budget_exhausted: "UPSTREAM_BUDGET_EXHAUSTED",
+  reserved_for_paid: "UPSTREAM_BUDGET_EXHAUSTED",
+};
+
+export function isBudgetRefusal(err: any): boolean {
+  const code = errorCodeOf(err);
+  return code === "UPSTREAM_CIRCUIT_OPEN" || code === "UPSTREAM_BUDGET_EXHAUSTED";
+}
+
+function refused(service: UpstreamService, reason: string, retryAt: string | null): UpstreamError {
+  const err = new Error(`${service} call refused: ${reason}`) as UpstreamError;
+  err.code = REFUSAL_CODES[reason] || "UPSTREAM_UNAVAILABLE";
+  err.upstreamStatus = null;
+  if (retryAt) err.retryAfterSeconds = Math.max(Math.ceil((new Date(retryAt).getTime() - Date.now()) / 1000), 1);
+  return err;
+}
+
+// fails open: a broken budget table must not take the analysis down with it.
+// Returns whether the breaker is clean (a success then needs no record call).
+async function acquire(service: UpstreamService, priority: UpstreamPriority, cooldowns: CooldownStore) {
+  const limit = dailyLimits()[service];
+  let result;
+  try {
+    result = await cooldowns.acquire(service, {
+      dailyLimit: limit,
+      reserve: reserveFor(limit),
+      paid: priority === "paid",
+      probeSeconds: PROBE_TIMEOUT_SECONDS,
+    });
+  } catch (e: any) {
+    console.error(`upstream budget check failed (${service}):`, e?.message || String(e));
+    return false;
+  }
+
+  if (!result.allowed) throw refused(service, result.reason || "", result.retryAt);
+  return result.breakerClean;
+}
+
+// 404s are answers, not failures; auth / 5xx / network errors count toward the breaker
+function outcomeOf(err: any): "failure" | "rate_limited" | null {
+  const code = errorCodeOf(err);
+  if (code === "UPSTREAM_RATE_LIMITED") return "rate_limited";
+  if (code === "UPSTREAM_NOT_FOUND" || code === "SERVER_MISCONFIGURED") return null;
+  return "failure";
+}
+
+async function record(service: UpstreamService, outcome: "ok" | "failure" | "rate_limited", cooldowns: CooldownStore) {
+  try {
+    const openedUntil = await cooldowns.record(service, outcome, {
+      failureThreshold: FAILURE_THRESHOLD,
+      baseBackoffSeconds: BASE_BACKOFF_SECONDS,
+      maxBackoffSeconds: MAX_BACKOFF_SECONDS,
+    });
+    if (openedUntil) console.warn(`upstream circuit open (${service}) until ${openedUntil}`);
+  } catch (e: any) {
+    console.error(`upstream budget record failed (${service}):`, e?.message || String(e));
+  }
+}
+
+/**
+ * Counts one call against `service`, refuses it while the breaker is open or the
+ * budget is spent, and feeds the result back into the breaker. One store round
+ * trip per call normally; failures and half-open probes add a second.
+ */
+export async function withUpstreamBudget<T>(
+  service: UpstreamService,
+  priority: UpstreamPriority,
+  run: () => Promise<T>,
+  cooldowns: CooldownStore = defaultStores().cooldowns
+): Promise<T> {
+  const breakerClean = await acquire(service, priority, cooldowns);
+  try {
+    const out = await run();
+    if (!breakerClean) await record(service, "ok", cooldowns);
+    return out;
+  } catch (e: any) {
+    const outcome = outcomeOf(e);
+    if (outcome || !breakerClean) await record(service, outcome || "ok", cooldowns);
+    throw e;
+  }
+}
+
+/**
+ * ===== STATUS =====
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type UpstreamBudgetStatus = {
+  service: UpstreamService;
+  day: string;
+  dailyLimit: number;
+  paidReserve: number;
+  callsToday: number;
+  remaining: number;
+  paidOnly: boolean;
+  failuresToday: number;
+  rejectedToday: number;
+  circuit: CircuitState;
+  openedUntil: string | null;
+};
+
+export async function upstreamBudgetStatus(
+  cooldowns: CooldownStore = defaultStores().cooldowns
+): Promise<UpstreamBudgetStatus[]> {
+  const rows = await cooldowns.snapshot();
+
+  const limits = dailyLimits();
+  const today = pacificDay();
+  const nowMs = Date.now();
+
+  return UPSTREAM_SERVICES.map((service) => {
+    const row = rows.find((r) => r.service === service);
+    // counters belong to the day they were written on
+    const current = row?.day === today;
+    const calls = current ? row.calls : 0;
+    const open = !!row?.openedUntil && new Date(row.openedUntil).getTime() > nowMs;
+
+    return {
+      service,
+      day: today,
+      dailyLimit: limits[service],
+      paidReserve: reserveFor(limits[service]),
+      callsToday: calls,
+      remaining: Math.max(limits[service] - calls, 0),
+      paidOnly: calls >= limits[service] - reserveFor(limits[service]),
+      failuresToday: current ? row.failures : 0,
+      rejectedToday: current ? row.rejected : 0,
+      circuit: open ? "open" : (row?.trips || 0) > 0 ? "half_open" : "closed",
+      openedUntil: open ? row.openedUntil : null,
+    };
+  });
+}
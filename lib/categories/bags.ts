@@ -0,0 +1,93 @@
+import type { ListingAttributes } from "../attributes";
+import { extractBagAttributes } from "../attributes";
+import { BRAND_CATALOG } from "../attributes/catalog";
+import type { CategoryPlugin } from "./types";
+
+/**
+ * ===== BAGS =====
+ */
+function sizeKey(attrs: Pick<ListingAttributes, "size">): string | null {
+  return attrs.size.label || (attrs.size.value != null ? String(attrs.size.value) : null);
+}
+
+function isBirkinOrKelly(attrs: ListingAttributes): boolean {
+  return attrs.brand === "Hermès" && (attrs.model === "Birkin" || attrs.model === "Kelly");
+}
+
+export const bagsCategory: CategoryPlugin = {
+  id: "bags",
+  label: "Handbags",
+  hints: ["bag", "bags", "handbag", "handbags", "purse", "purses", "tote"],
+  signals: ["bag", "handbag", "tote", "flap", "hobo", "satchel", "shoulder bag", "crossbody", "clutch", "purse"],
+  catalog: BRAND_CATALOG,
+  extractAttributes: extractBagAttributes,
+
+  sizeKey,
+  compareSize(a, b) {
+    if (a.size.label && b.size.label) return a.size.label === b.size.label ? "match" : "mismatch";
+    if (a.size.value != null && b.size.value != null) return a.size.value === b.size.value ? "match" : "mismatch";
+    return "unknown";
+  },
+
+  // size and leather move Birkin / Kelly prices more than anything else in the title
+  queryTerms(attrs) {
+    if (!isBirkinOrKelly(attrs)) return [];
+    return [sizeKey(attrs), attrs.material].filter(Boolean) as string[];
+  },
+  soldLadder: [
+    ["brand", "model", "size", "material"],
+    ["brand", "model", "size"],
+    ["brand", "model"],
+  ],
+
+  stopPhrases: ["dust bag", "dustbag"],
+  searchNegatives: [
+    "twilly",
+    "strap",
+    "dustbag",
+    "box only",
+    "charms",
+    "scarf",
+    "organizer",
+    "insert",
+    "accessories",
+    "replica",
+  ],
+  junkTerms: [
+    "twilly",
+    "strap",
+    "dustbag",
+    "dust bag",
+    "box only",
+    "empty box",
+    "scarf",
+    "organizer",
+    "insert",
+    "charm",
+    "charms",
+    "keychain",
+    "replica",
+    "inspired",
+  ],
+  penaltyTerms: ["replica", "inspired", "twilly", "strap", "dustbag", "scarf", "organizer", "insert", "charm", "box only"],
+  weights: {
+    brand: 22,
+    brandPartial: 12,
+    model: 18,
+    modelPartial: 10,
+    reference: 0,
+    referenceMismatch: 0,
+    sizeMatch: 20,
+    sizeMismatch: -18,
+    sizeUnknown: -8,
+    material: 10,
+    materialMismatch: -6,
+    negativeTerm: -35,
+    conditionMatch: 8,
+    conditionNear: 3,
+    conditionFar: -4,
+    conditionMismatch: -10,
+    titleOverlap: 6,
+    priceCloseness: 25,
+  },
+};
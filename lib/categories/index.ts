@@ -0,0 +1,100 @@
+import type { AnalyzeRequest } from "../types";
+import type { ListingAttributes } from "../attributes";
+import { hasPhrase } from "../attributes";
+import { normalize } from "../util";
+import type { CategoryId, CategoryPlugin } from "./types";
+import { bagsCategory } from "./bags";
+import { watchesCategory } from "./watches";
+import { sneakersCategory } from "./sneakers";
+import { jewelryCategory } from "./jewelry";
+
+export type { CategoryId, CategoryPlugin, QueryField, RankingWeights } from "./types";
+
+/**
+ * ===== CATEGORY REGISTRY =====
+ * Order breaks detection ties; bags first (the original and default category).
+ */
+const CATEGORIES: CategoryPlugin[] = [bagsCategory, watchesCategory, sneakersCategory, jewelryCategory];
+
+export function getCategory(id: string): CategoryPlugin | null {
+  return CATEGORIES.find((c) => c.id === id) || null;
+}
+
+export function supportedCategoryIds(): CategoryId[] {
+  return CATEGORIES.map((c) => c.id);
+}
+
+// attributes stored before categories existed are bags
+export function categoryOf(attrs: { category?: CategoryId | null }): CategoryPlugin {
+  return getCategory(attrs.category || "bags") || bagsCategory;
+}
+
+/**
+ * categoryHint is either an id ("watches") or free text / an eBay category path
+ * ("Jewelry & Watches > Watches > Wristwatches"): most specific segment wins.
+ */
+export function categoryFromHint(hint: string | undefined | null): CategoryPlugin | null {
+  const byId = getCategory(normalize(hint || ""));
+  if (byId) return byId;
+
+  const segments = String(hint || "")
+    .split(/[>|/]/)
+    .map((s) => ` ${normalize(s)} `)
+    .filter((s) => s.trim());
+  for (const seg of segments.reverse()) {
+    const hit = CATEGORIES.find((c) => c.hints.some((h) => hasPhrase(seg, h)));
+    if (hit) return hit;
+  }
+  return null;
+}
+
+/**
+ * Title scoring: item-type words 3, catalog model 2, catalog brand 1 (+2 for a
+ * known reference), so "Cartier Santos" is a watch and "Cartier Love bracelet" jewelry.
+ */
+export function detectCategory(text: string, brandHint = ""): CategoryPlugin | null {
+  const padded = ` ${normalize(text)} `;
+  let best: { category: CategoryPlugin; score: number } | null = null;
+
+  for (const c of CATEGORIES) {
+    const attrs = c.extractAttributes(text, brandHint);
+    const brand = c.catalog.find((b) => b.name === attrs.brand);
+    let score = c.signals.filter((s) => hasPhrase(padded, s)).length * 3;
+    if (brand) score += 1;
+    if (brand && attrs.model) score += 2;
+    if (attrs.reference) score += 2;
+    if (score > 0 && (!best || score > best.score)) best = { category: c, score };
+  }
+  return best?.category || null;
+}
+
+// null = not a category we value
+export function resolveCategory(body: Pick<AnalyzeRequest, "title" | "brand" | "categoryHint">): CategoryPlugin | null {
+  return (
+    categoryFromHint(body.categoryHint) ||
+    detectCategory(`${body.title || ""} ${body.categoryHint || ""}`, body.brand || "")
+  );
+}
+
+/**
+ * ===== CATEGORY-AWARE ATTRIBUTE HELPERS =====
+ */
+export function extractAttributes(title: string, brandHint = "", category: CategoryPlugin = bagsCategory): ListingAttributes {
+  return category.extractAttributes(title, brandHint);
+}
+
+export function sizeKey(attrs: Pick<ListingAttributes, "category" | "size">): string | null {
+  return categoryOf(attrs).sizeKey(attrs);
+}
+
+export function compareSize(a: ListingAttributes, b: ListingAttributes): "match" | "mismatch" | "unknown" {
+  return categoryOf(a).compareSize(a, b);
+}
+
+// "126610" (no suffix) still matches "126610LN"; a different suffix does not
+export function compareReference(a: string | null, b: string | null): "match" | "mismatch" | "unknown" {
+  if (!a || !b) return "unknown";
+  if (a === b) return "match";
+  const [short, long] = a.length < b.length ? [a, b] : [b, a];
+  return /^\d+$/.test(short) && long.startsWith(short) ? "match" : "mismatch";
+}
@@ -0,0 +1,192 @@
+import type { ListingAttributes, SizeSpec } from "../attributes";
+import { detectBrand, detectModel, detectYear, firstMatch } from "../attributes";
+import type { CatalogBrand } from "../attributes/catalog";
+import { normalize } from "../util";
+import type { CategoryPlugin } from "./types";
+
+/**
+ * ===== FINE JEWELRY =====
+ * Catalog models are collections; the piece type is appended ("Love Bracelet").
+ * Material is metal + stone, since both move the price more than anything else.
+ */
+export const JEWELRY_CATALOG: CatalogBrand[] = [
+  {
+    name: "Cartier",
+    aliases: ["cartier"],
+    models: [
+      { name: "Love", aliases: ["love"] },
+      { name: "Juste un Clou", aliases: ["juste un clou", "just un clou"] },
+      { name: "Trinity", aliases: ["trinity"] },
+      { name: "Clash", aliases: ["clash de cartier", "clash"] },
+      { name: "Panthère", aliases: ["panthere"] },
+    ],
+  },
+  {
+    name: "Van Cleef & Arpels",
+    aliases: ["van cleef arpels", "van cleef", "vca"],
+    models: [
+      { name: "Sweet Alhambra", aliases: ["sweet alhambra"] },
+      { name: "Magic Alhambra", aliases: ["magic alhambra"] },
+      { name: "Vintage Alhambra", aliases: ["vintage alhambra"] },
+      { name: "Alhambra", aliases: ["alhambra"] },
+      { name: "Perlée", aliases: ["perlee"] },
+      { name: "Frivole", aliases: ["frivole"] },
+    ],
+  },
+  {
+    name: "Tiffany & Co.",
+    aliases: ["tiffany co", "tiffany"],
+    models: [
+      { name: "Tiffany T", aliases: ["tiffany t", "t1", "t wire", "t smile"] },
+      { name: "HardWear", aliases: ["hardwear"] },
+      { name: "Return to Tiffany", aliases: ["return to tiffany"] },
+      { name: "Elsa Peretti", aliases: ["elsa peretti", "peretti"] },
+      { name: "Knot", aliases: ["tiffany knot", "knot"] },
+    ],
+  },
+  {
+    name: "Bulgari",
+    aliases: ["bvlgari", "bulgari"],
+    models: [
+      { name: "Serpenti", aliases: ["serpenti"] },
+      { name: "B.zero1", aliases: ["b zero1", "bzero1", "b zero 1"] },
+      { name: "Divas' Dream", aliases: ["divas dream"] },
+    ],
+  },
+  {
+    name: "David Yurman",
+    aliases: ["david yurman", "yurman"],
+    models: [
+      { name: "Cable", aliases: ["cable"] },
+      { name: "Albion", aliases: ["albion"] },
+    ],
+  },
+  {
+    name: "Hermès",
+    aliases: ["hermes"],
+    models: [
+      { name: "Clic H", aliases: ["clic h", "clic clac"] },
+      { name: "Collier de Chien", aliases: ["collier de chien", "cdc"] },
+    ],
+  },
+  {
+    name: "Chanel",
+    aliases: ["chanel"],
+    models: [{ name: "Coco Crush", aliases: ["coco crush"] }],
+  },
+];
+
+const PIECE_TYPES: Record<string, string[]> = {
+  Bracelet: ["bracelet", "bangle", "cuff"],
+  Ring: ["ring", "band"],
+  Necklace: ["necklace", "pendant", "chain"],
+  Earrings: ["earrings", "earring", "studs", "hoops"],
+};
+
+// checked in order: colored golds before plain "gold"
+const METALS: Record<string, string[]> = {
+  "yellow gold": ["yellow gold", "18k yellow", "yg"],
+  "white gold": ["white gold", "18k white", "wg"],
+  "rose gold": ["rose gold", "pink gold", "18k rose", "rg"],
+  platinum: ["platinum", "pt950"],
+  "sterling silver": ["sterling silver", "sterling", "925", "silver"],
+  gold: ["18k", "18kt", "750", "14k", "gold"],
+};
+
+const STONES: Record<string, string[]> = {
+  diamonds: ["diamond", "diamonds", "pave", "paved"],
+  "mother of pearl": ["mother of pearl", "mop"],
+  onyx: ["onyx"],
+  malachite: ["malachite"],
+  carnelian: ["carnelian"],
+};
+
+const RING_EU_MIN = 40;
+
+// bracelets: cm (Cartier sizes are lengths); rings: EU circumference, US sizes converted
+function detectJewelrySize(title: string, pieceType: string | null): SizeSpec {
+  const t = (title || "").toLowerCase();
+  const m = t.match(/\b(?:size|sz)\s?:?\s?(\d{1,2}(?:\.5)?)\b/) || t.match(/\b(\d{2}(?:\.5)?)\s?cm\b/);
+  const v = m ? Number(m[1]) : null;
+  if (v == null) return { value: null, unit: null, label: null };
+
+  if (pieceType === "Ring") {
+    if (v >= RING_EU_MIN) return { value: v, unit: "eu", label: null };
+    return { value: Math.round(v * 2.55 + 36.5), unit: "eu", label: null };
+  }
+  if (pieceType !== "Necklace" && v >= 14 && v <= 23) return { value: v, unit: "cm", label: null };
+  return { value: null, unit: null, label: null };
+}
+
+export function extractJewelryAttributes(title: string, brandHint = ""): ListingAttributes {
+  const text = normalize(title);
+  const padded = ` ${text} `;
+
+  const { brand, model } = detectModel(padded, detectBrand(padded, brandHint, JEWELRY_CATALOG), JEWELRY_CATALOG);
+  const pieceType = firstMatch(padded, PIECE_TYPES);
+  const metal = firstMatch(padded, METALS);
+  const stone = firstMatch(padded, STONES);
+
+  return {
+    category: "jewelry",
+    brand: brand?.name || (brandHint.trim() || null),
+    model: model ? [model.name, pieceType].filter(Boolean).join(" ") : null,
+    reference: null,
+    size: detectJewelrySize(title, pieceType),
+    material: [metal, stone].filter(Boolean).join(" ") || null,
+    color: null,
+    hardware: null,
+    year: detectYear(text),
+    dateCode: null,
+  };
+}
+
+export const jewelryCategory: CategoryPlugin = {
+  id: "jewelry",
+  label: "Fine jewelry",
+  hints: ["jewelry", "jewellery", "fine jewelry", "bracelet", "bracelets", "necklace", "necklaces", "ring", "rings", "earrings", "pendant", "pendants"],
+  signals: ["bracelet", "bangle", "necklace", "pendant", "ring", "earrings", "earring", "brooch", "jewelry", "jewellery"],
+  catalog: JEWELRY_CATALOG,
+  extractAttributes: extractJewelryAttributes,
+
+  sizeKey: (attrs) => (attrs.size.value != null ? String(attrs.size.value) : null),
+  compareSize(a, b) {
+    if (a.size.value == null || b.size.value == null || a.size.unit !== b.size.unit) return "unknown";
+    // ring sizes are listed loosely; a size either side still fits the same buyer
+    const tolerance = a.size.unit === "eu" ? 1 : 0.5;
+    return Math.abs(a.size.value - b.size.value) <= tolerance ? "match" : "mismatch";
+  },
+
+  queryTerms: (attrs) => (attrs.material ? [attrs.material] : []),
+  soldLadder: [
+    ["brand", "model", "material", "size"],
+    ["brand", "model", "material"],
+    ["brand", "model"],
+  ],
+
+  stopPhrases: ["with box", "with receipt", "certificate", "coa"],
+  searchNegatives: ["screwdriver", "box only", "pouch only", "replica", "inspired", "plated"],
+  junkTerms: ["screwdriver", "box only", "empty box", "pouch only", "certificate only", "replica", "inspired", "dupe"],
+  // costume metals borrow the names of the real pieces
+  penaltyTerms: ["plated", "gold filled", "vermeil", "gold tone", "silver tone"],
+  weights: {
+    brand: 20,
+    brandPartial: 10,
+    model: 22,
+    modelPartial: 8,
+    reference: 0,
+    referenceMismatch: 0,
+    sizeMatch: 6,
+    sizeMismatch: -6,
+    sizeUnknown: 0,
+    material: 14,
+    materialMismatch: -16,
+    negativeTerm: -30,
+    conditionMatch: 8,
+    conditionNear: 3,
+    conditionFar: -4,
+    conditionMismatch: -10,
+    titleOverlap: 6,
+    priceCloseness: 25,
+  },
+};
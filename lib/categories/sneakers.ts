@@ -0,0 +1,204 @@
+import type { ListingAttributes, SizeSpec } from "../attributes";
+import { detectBrand, detectModel, detectYear, firstMatch } from "../attributes";
+import type { CatalogBrand } from "../attributes/catalog";
+import { COLORS } from "../attributes/catalog";
+import { normalize } from "../util";
+import type { CategoryPlugin } from "./types";
+
+/**
+ * ===== SNEAKERS =====
+ * Style code (DZ5485-612) pins the colourway; sizes compare in US men's.
+ */
+// Jordan before Nike: "Nike Air Jordan 1" is a Jordan
+export const SNEAKER_CATALOG: CatalogBrand[] = [
+  {
+    name: "Jordan",
+    aliases: ["air jordan", "jordan"],
+    models: [
+      { name: "Air Jordan 1", aliases: ["jordan 1", "aj1", "aj 1", "jordan retro 1"] },
+      { name: "Air Jordan 3", aliases: ["jordan 3", "aj3", "aj 3"] },
+      { name: "Air Jordan 4", aliases: ["jordan 4", "aj4", "aj 4"] },
+      { name: "Air Jordan 5", aliases: ["jordan 5", "aj5"] },
+      { name: "Air Jordan 6", aliases: ["jordan 6", "aj6"] },
+      { name: "Air Jordan 11", aliases: ["jordan 11", "aj11", "aj 11"] },
+    ],
+  },
+  {
+    name: "Nike",
+    aliases: ["nike"],
+    models: [
+      { name: "Dunk", aliases: ["sb dunk", "dunk"] },
+      { name: "Air Force 1", aliases: ["air force 1", "air force one", "af1"] },
+      { name: "Air Max 1", aliases: ["air max 1"] },
+      { name: "Air Max 90", aliases: ["air max 90"] },
+    ],
+  },
+  {
+    name: "adidas",
+    aliases: ["adidas"],
+    models: [
+      { name: "Yeezy Boost 350 V2", aliases: ["yeezy boost 350", "yeezy 350", "350 v2"] },
+      { name: "Yeezy Slide", aliases: ["yeezy slide", "yeezy slides"] },
+      { name: "Yeezy 700", aliases: ["yeezy boost 700", "yeezy 700"] },
+      { name: "Samba", aliases: ["samba"] },
+      { name: "Gazelle", aliases: ["gazelle"] },
+    ],
+  },
+  {
+    name: "New Balance",
+    aliases: ["new balance"],
+    models: [
+      { name: "550", aliases: ["550", "bb550"] },
+      { name: "990", aliases: ["990", "990v3", "990v4", "990v5", "990v6"] },
+      { name: "2002R", aliases: ["2002r"] },
+      { name: "9060", aliases: ["9060"] },
+    ],
+  },
+  {
+    name: "ASICS",
+    aliases: ["asics"],
+    models: [
+      { name: "Gel-Kayano 14", aliases: ["gel-kayano 14", "gel kayano 14", "kayano 14"] },
+      { name: "Gel-Lyte III", aliases: ["gel-lyte iii", "gel lyte iii", "gel lyte 3"] },
+    ],
+  },
+];
+
+const SNEAKER_MATERIALS: Record<string, string[]> = {
+  suede: ["suede"],
+  nubuck: ["nubuck"],
+  patent: ["patent"],
+  leather: ["leather"],
+  knit: ["primeknit", "flyknit", "knit"],
+  canvas: ["canvas"],
+  mesh: ["mesh"],
+};
+
+// price tiers differ a lot between cuts of the same model
+const CUTS = ["high", "mid", "low"];
+
+// Nike / Jordan men's EU -> US
+const EU_TO_US: Record<string, number> = {
+  "38.5": 6, "39": 6.5, "40": 7, "40.5": 7.5, "41": 8, "42": 8.5, "42.5": 9, "43": 9.5,
+  "44": 10, "44.5": 10.5, "45": 11, "45.5": 11.5, "46": 12, "47": 12.5, "47.5": 13, "48": 13.5, "48.5": 14,
+};
+
+// women's US runs 1.5 above men's
+const WOMENS_OFFSET = 1.5;
+
+function detectStyleCode(title: string, brand: CatalogBrand | null): string | null {
+  const text = (title || "").toUpperCase();
+  const nike = text.match(/\b([A-Z]{2}\d{4}|\d{6})-(\d{3})\b/);
+  if (nike) return `${nike[1]}-${nike[2]}`;
+  if (brand?.name === "adidas") {
+    const m = text.match(/\b([A-Z]{1,2}\d{4})\b/);
+    if (m) return m[1];
+  }
+  return null;
+}
+
+function detectShoeSize(title: string, tokens: string[]): SizeSpec {
+  const t = (title || "").toLowerCase();
+  const womens = tokens.some((w) => w === "womens" || w === "women" || w === "wmns");
+
+  const eu = t.match(/\b(?:eu|eur)\s?:?\s?(\d{2}(?:\.5)?)\b/) || t.match(/\b(\d{2}(?:\.5)?)\s?(?:eu|eur)\b/);
+  // no bare "m" (dimensions, "m 12 pcs"): men's sizes say men, mens or us m
+  const us =
+    t.match(/\b(?:us m|us|size|sz|mens|men's|men)\s?:?\s?(\d{1,2}(?:\.5)?)\b/) || t.match(/\b(\d{1,2}(?:\.5)?)\s?us\b/);
+  const uk = t.match(/\buk\s?:?\s?(\d{1,2}(?:\.5)?)\b/);
+
+  if (us && Number(us[1]) >= 3 && Number(us[1]) <= 18) {
+    const v = Number(us[1]);
+    return { value: womens ? v - WOMENS_OFFSET : v, unit: "us", label: null };
+  }
+  if (eu && Number(eu[1]) >= 35 && Number(eu[1]) <= 50) return { value: Number(eu[1]), unit: "eu", label: null };
+  // men's UK runs one below US
+  if (uk && Number(uk[1]) >= 3 && Number(uk[1]) <= 17) return { value: Number(uk[1]) + 1, unit: "us", label: null };
+  return { value: null, unit: null, label: null };
+}
+
+// US men's, or null when an EU size has no table entry
+function usSize(size: SizeSpec): number | null {
+  if (size.value == null) return null;
+  if (size.unit === "us") return size.value;
+  if (size.unit === "eu") return EU_TO_US[String(size.value)] ?? null;
+  return null;
+}
+
+export function extractSneakerAttributes(title: string, brandHint = ""): ListingAttributes {
+  const text = normalize(title);
+  const tokens = text.split(" ").filter(Boolean);
+  const padded = ` ${text} `;
+
+  const { brand, model } = detectModel(padded, detectBrand(padded, brandHint, SNEAKER_CATALOG), SNEAKER_CATALOG);
+  const cut = model ? CUTS.find((c) => tokens.includes(c)) : undefined;
+
+  return {
+    category: "sneakers",
+    brand: brand?.name || (brandHint.trim() || null),
+    model: model ? (cut ? `${model.name} ${cut[0].toUpperCase()}${cut.slice(1)}` : model.name) : null,
+    reference: detectStyleCode(title, brand),
+    size: detectShoeSize(title, tokens),
+    material: firstMatch(padded, SNEAKER_MATERIALS),
+    color: firstMatch(padded, COLORS),
+    hardware: null,
+    year: detectYear(text),
+    dateCode: null,
+  };
+}
+
+export const sneakersCategory: CategoryPlugin = {
+  id: "sneakers",
+  label: "Sneakers",
+  // not plain "shoes": heels and loafers are not sneakers
+  hints: ["sneakers", "sneaker", "athletic shoes", "trainers"],
+  signals: ["sneaker", "sneakers", "trainers", "trainer", "kicks", "athletic shoes", "basketball shoes"],
+  catalog: SNEAKER_CATALOG,
+  extractAttributes: extractSneakerAttributes,
+
+  sizeKey(attrs) {
+    const us = usSize(attrs.size);
+    if (us != null) return `US ${us}`;
+    return attrs.size.value != null ? `EU ${attrs.size.value}` : null;
+  },
+  compareSize(a, b) {
+    const x = usSize(a.size);
+    const y = usSize(b.size);
+    if (x == null || y == null) return "unknown";
+    return x === y ? "match" : "mismatch";
+  },
+
+  queryTerms: (attrs) => (attrs.reference ? [attrs.reference] : []),
+  soldLadder: [
+    ["brand", "model", "reference"],
+    ["brand", "reference"],
+    ["brand", "model"],
+  ],
+
+  stopPhrases: ["deadstock", "with box", "og box", "no box", "ds"],
+  searchNegatives: ["box only", "laces", "insoles", "replica", "toddler", "preschool"],
+  // matched as substrings, so no short codes like "GS" / "UA" here
+  junkTerms: ["box only", "empty box", "laces only", "insoles", "keychain", "replica", "unauthorized authentic"],
+  // kids' sizes and customs price differently from the adult retail pair
+  penaltyTerms: ["grade school", "toddler", "preschool", "kids", "custom", "painted"],
+  weights: {
+    brand: 14,
+    brandPartial: 7,
+    model: 20,
+    modelPartial: 8,
+    reference: 24,
+    referenceMismatch: -22,
+    sizeMatch: 6,
+    sizeMismatch: -3,
+    sizeUnknown: 0,
+    material: 4,
+    materialMismatch: -4,
+    negativeTerm: -30,
+    conditionMatch: 8,
+    conditionNear: 3,
+    conditionFar: -4,
+    conditionMismatch: -10,
+    titleOverlap: 6,
+    priceCloseness: 25,
+  },
+};
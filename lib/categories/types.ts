@@ -0,0 +1,65 @@
+import type { ListingAttributes } from "../attributes";
+import type { CatalogBrand } from "../attributes/catalog";
+
+/**
+ * ===== CATEGORY PLUGIN CONTRACT =====
+ *
+ * A category owns everything that depends on what is being sold: detection,
+ * attribute extraction, size semantics, search terms, junk filters and ranking
+ * weights. Fetching, stats and labels stay shared.
+ */
+export type CategoryId = "bags" | "watches" | "sneakers" | "jewelry";
+
+// points per ranking factor (lib/valuation rankAndFilterComps)
+export type RankingWeights = {
+  brand: number;
+  brandPartial: number;
+  model: number;
+  modelPartial: number;
+  reference: number;
+  referenceMismatch: number;
+  sizeMatch: number;
+  sizeMismatch: number;
+  sizeUnknown: number;
+  material: number;
+  materialMismatch: number;
+  negativeTerm: number;
+  // condition grade distance 0 / 1 / 2 / 3+
+  conditionMatch: number;
+  conditionNear: number;
+  conditionFar: number;
+  conditionMismatch: number;
+  // per title word in common
+  titleOverlap: number;
+  // full points at the asking price, none at e (or 1/e) times it
+  priceCloseness: number;
+};
+
+export type QueryField = "brand" | "model" | "reference" | "size" | "material";
+
+export type CategoryPlugin = {
+  id: CategoryId;
+  label: string;
+  // matched against categoryHint segments (eBay category paths included)
+  hints: string[];
+  // item-type words; catalog brand/model aliases count as weaker signals
+  signals: string[];
+  catalog: CatalogBrand[];
+  extractAttributes(title: string, brandHint: string): ListingAttributes;
+  // "MM" / "40mm" / "US 10": what query building, matching and history compare on
+  sizeKey(attrs: Pick<ListingAttributes, "size">): string | null;
+  compareSize(a: ListingAttributes, b: ListingAttributes): "match" | "mismatch" | "unknown";
+  // quoted into the active search after brand + model + size (or the cleaned title)
+  queryTerms(attrs: ListingAttributes): string[];
+  // sold query ladder, most specific first; rungs missing a field are skipped
+  soldLadder: QueryField[][];
+  // stripped from the title before searching
+  stopPhrases: string[];
+  // excluded from comp searches
+  searchNegatives: string[];
+  // comp titles dropped outright
+  junkTerms: string[];
+  // comp titles penalized by weights.negativeTerm
+  penaltyTerms: string[];
+  weights: RankingWeights;
+};
@@ -0,0 +1,276 @@
+import type { ListingAttributes } from "../attributes";
+import { detectBrand, detectModel, detectYear, firstMatch } from "../attributes";
+import type { CatalogBrand } from "../attributes/catalog";
+import { COLORS } from "../attributes/catalog";
+import { normalize } from "../util";
+import type { CategoryPlugin } from "./types";
+
+/**
+ * ===== LUXURY WATCHES =====
+ * The reference number identifies the watch; model names are only a fallback.
+ * `references` are prefixes, so "126610" covers 126610LN and 126610LV.
+ */
+export const WATCH_CATALOG: CatalogBrand[] = [
+  {
+    name: "Rolex",
+    aliases: ["rolex"],
+    models: [
+      {
+        name: "Submariner",
+        aliases: ["submariner", "sub date"],
+        references: ["14060", "16610", "16613", "16618", "114060", "116610", "116613", "116618", "116619", "124060", "126610", "126613", "126618", "126619"],
+      },
+      {
+        name: "GMT-Master II",
+        aliases: ["gmt master ii", "gmt master 2", "gmt-master ii", "gmt master", "gmt"],
+        references: ["16710", "116710", "116713", "116718", "126710", "126711", "126713", "126715", "126720"],
+      },
+      {
+        name: "Daytona",
+        aliases: ["daytona", "cosmograph"],
+        references: ["16520", "116500", "116503", "116505", "116508", "116509", "116515", "116518", "116519", "116520", "126500", "126503", "126505", "126506", "126508", "126518", "126519"],
+      },
+      {
+        name: "Day-Date",
+        aliases: ["day date", "day-date", "daydate", "president"],
+        references: ["18038", "18238", "118206", "118235", "118238", "118239", "128235", "128238", "128239", "228206", "228235", "228238", "228239"],
+      },
+      {
+        name: "Datejust",
+        aliases: ["datejust"],
+        references: ["16013", "16014", "16200", "16233", "16234", "116200", "116233", "116234", "126200", "126233", "126234", "126300", "126331", "126333", "126334", "278240", "279174"],
+      },
+      {
+        name: "Explorer",
+        aliases: ["explorer"],
+        references: ["14270", "114270", "124270", "214270", "224270", "16570", "216570", "226570"],
+      },
+      {
+        name: "Sea-Dweller",
+        aliases: ["sea dweller", "sea-dweller", "deepsea"],
+        references: ["16600", "116600", "116660", "126600", "126660", "136660"],
+      },
+      {
+        name: "Yacht-Master",
+        aliases: ["yacht master", "yacht-master", "yachtmaster"],
+        references: ["16622", "116622", "126622", "226659", "268622"],
+      },
+      { name: "Milgauss", aliases: ["milgauss"], references: ["116400"] },
+      // last: most Rolex titles say "Oyster Perpetual" before the model name
+      { name: "Oyster Perpetual", aliases: ["oyster perpetual"], references: ["114300", "124300", "126000", "277200"] },
+    ],
+  },
+  {
+    name: "Patek Philippe",
+    aliases: ["patek philippe", "patek"],
+    models: [
+      { name: "Nautilus", aliases: ["nautilus"], references: ["5711", "5712", "5726", "5980", "5990", "7118"] },
+      { name: "Aquanaut", aliases: ["aquanaut"], references: ["5164", "5167", "5168", "5968"] },
+      { name: "Calatrava", aliases: ["calatrava"], references: ["5119", "5196", "5227", "6119"] },
+    ],
+  },
+  {
+    name: "Audemars Piguet",
+    aliases: ["audemars piguet", "audemars"],
+    models: [
+      { name: "Royal Oak Offshore", aliases: ["royal oak offshore", "offshore"], references: ["15703", "15710", "26400", "26470"] },
+      { name: "Royal Oak", aliases: ["royal oak"], references: ["15202", "15300", "15400", "15500", "15510", "26240", "26331"] },
+    ],
+  },
+  {
+    name: "Omega",
+    aliases: ["omega"],
+    models: [
+      { name: "Speedmaster", aliases: ["speedmaster", "moonwatch"], references: ["3570.50", "311.30.42.30", "310.30.42.50"] },
+      { name: "Seamaster", aliases: ["seamaster", "aqua terra", "planet ocean"], references: ["2254.50", "2531.80", "210.30.42.20", "215.30.44.21", "220.10.41.21"] },
+      { name: "Constellation", aliases: ["constellation"] },
+      { name: "De Ville", aliases: ["de ville", "deville"] },
+    ],
+  },
+  {
+    name: "Cartier",
+    aliases: ["cartier"],
+    models: [
+      { name: "Santos", aliases: ["santos"] },
+      { name: "Tank", aliases: ["tank"] },
+      { name: "Ballon Bleu", aliases: ["ballon bleu"] },
+      { name: "Panthère", aliases: ["panthere"] },
+    ],
+  },
+  {
+    name: "Tudor",
+    aliases: ["tudor"],
+    models: [
+      { name: "Black Bay", aliases: ["black bay"], references: ["79030", "79220", "79230", "79360", "79470", "7941"] },
+      { name: "Pelagos", aliases: ["pelagos"], references: ["25407", "25600", "25707"] },
+    ],
+  },
+  {
+    name: "Breitling",
+    aliases: ["breitling"],
+    models: [
+      { name: "Navitimer", aliases: ["navitimer"] },
+      { name: "Superocean", aliases: ["superocean"] },
+      { name: "Chronomat", aliases: ["chronomat"] },
+    ],
+  },
+  {
+    name: "IWC",
+    aliases: ["iwc"],
+    models: [
+      { name: "Portugieser", aliases: ["portugieser", "portuguese"] },
+      { name: "Pilot's Watch", aliases: ["big pilot", "pilot s watch", "pilot"] },
+    ],
+  },
+  {
+    name: "TAG Heuer",
+    aliases: ["tag heuer", "heuer"],
+    models: [
+      { name: "Carrera", aliases: ["carrera"] },
+      { name: "Monaco", aliases: ["monaco"] },
+      { name: "Aquaracer", aliases: ["aquaracer"] },
+    ],
+  },
+];
+
+// checked in order: two-tone before its metals
+const WATCH_MATERIALS: Record<string, string[]> = {
+  "two-tone": ["two tone", "two-tone", "rolesor", "bicolor", "steel and gold", "steel gold"],
+  "yellow gold": ["yellow gold", "18k yellow", "yg"],
+  "white gold": ["white gold", "18k white", "wg"],
+  "rose gold": ["rose gold", "everose", "pink gold", "red gold", "sedna"],
+  platinum: ["platinum", "pt950"],
+  titanium: ["titanium"],
+  ceramic: ["ceramic"],
+  steel: ["stainless steel", "oystersteel", "steel", "ss", "acier"],
+};
+
+/**
+ * Reference formats, most specific first:
+ * Omega 310.30.42.50.01.001 / 3570.50, Patek 5711/1A, AP 15500ST, Rolex / Tudor 126610LN, M79230N.
+ */
+const REFERENCE_PATTERNS: RegExp[] = [
+  /\b(\d{3}\.\d{2}\.\d{2}\.\d{2}\.\d{2}\.\d{3})\b/,
+  /\b(\d{4}\.\d{2})\b/,
+  /\b(\d{4}\/\d{1,4}[A-Z]?)(?:-\d{3})?\b/,
+  /\bM?(\d{5,6}[A-Z]{1,4})\b/,
+  /\b(\d{4}[A-Z]{1,2})\b/,
+];
+
+function catalogReference(ref: string, catalog: CatalogBrand[]): boolean {
+  return catalog.some((b) => b.models.some((m) => (m.references || []).some((p) => ref.startsWith(p))));
+}
+
+function detectReference(title: string): string | null {
+  const text = (title || "").toUpperCase();
+  for (const re of REFERENCE_PATTERNS) {
+    const m = text.match(re);
+    if (m) return m[1];
+  }
+  // bare digits ("Rolex 16610") only when the catalog knows them; otherwise prices and years get in
+  const digits = text.match(/\b(\d{5,6})\b/g) || [];
+  return digits.find((d) => catalogReference(d, WATCH_CATALOG)) || null;
+}
+
+function modelForReference(ref: string, brand: CatalogBrand | null) {
+  for (const b of brand ? [brand] : WATCH_CATALOG) {
+    const m = b.models.find((m) => (m.references || []).some((p) => ref.startsWith(p)));
+    if (m) return { brand: b, model: m };
+  }
+  return null;
+}
+
+function detectCaseSize(title: string): number | null {
+  const m = (title || "").toLowerCase().match(/\b(\d{2}(?:\.\d)?)\s?mm\b/);
+  const mm = m ? Number(m[1]) : null;
+  return mm != null && mm >= 20 && mm <= 50 ? mm : null;
+}
+
+export function extractWatchAttributes(title: string, brandHint = ""): ListingAttributes {
+  const text = normalize(title);
+  const padded = ` ${text} `;
+
+  const reference = detectReference(title);
+  let { brand, model } = detectModel(padded, detectBrand(padded, brandHint, WATCH_CATALOG), WATCH_CATALOG);
+  if (reference && !model) {
+    const byRef = modelForReference(reference, brand);
+    if (byRef) ({ brand, model } = byRef);
+  }
+  const mm = detectCaseSize(title);
+
+  return {
+    category: "watches",
+    brand: brand?.name || (brandHint.trim() || null),
+    model: model?.name || null,
+    reference,
+    size: { value: mm, unit: mm != null ? "mm" : null, label: null },
+    material: firstMatch(padded, WATCH_MATERIALS),
+    // dial colour
+    color: firstMatch(padded, COLORS),
+    hardware: null,
+    year: detectYear(text),
+    dateCode: null,
+  };
+}
+
+export const watchesCategory: CategoryPlugin = {
+  id: "watches",
+  label: "Luxury watches",
+  hints: ["watch", "watches", "wristwatch", "wristwatches", "timepiece"],
+  signals: ["watch", "watches", "wristwatch", "chronograph", "automatic", "self winding", "dial", "bezel", "jubilee", "oyster"],
+  catalog: WATCH_CATALOG,
+  extractAttributes: extractWatchAttributes,
+
+  sizeKey: (attrs) => (attrs.size.value != null ? `${attrs.size.value}mm` : null),
+  compareSize(a, b) {
+    if (a.size.value == null || b.size.value == null) return "unknown";
+    return Math.abs(a.size.value - b.size.value) < 1 ? "match" : "mismatch";
+  },
+
+  queryTerms: (attrs) => (attrs.reference ? [attrs.reference] : []),
+  soldLadder: [
+    ["brand", "model", "reference"],
+    ["brand", "reference"],
+    ["brand", "model", "material"],
+    ["brand", "model"],
+  ],
+
+  stopPhrases: ["box and papers", "box papers", "full set", "warranty card", "papers"],
+  searchNegatives: ["band only", "bracelet only", "strap only", "dial only", "bezel only", "for parts", "box only", "replica", "homage"],
+  junkTerms: [
+    "band only",
+    "bracelet only",
+    "strap only",
+    "dial only",
+    "bezel only",
+    "movement only",
+    "for parts",
+    "box only",
+    "empty box",
+    "manual only",
+    "replica",
+    "homage",
+  ],
+  // aftermarket diamonds / refinished dials trade well below factory pieces
+  penaltyTerms: ["aftermarket", "custom", "refinished", "service dial", "non original", "iced out"],
+  weights: {
+    brand: 20,
+    brandPartial: 10,
+    model: 14,
+    modelPartial: 6,
+    reference: 26,
+    referenceMismatch: -20,
+    sizeMatch: 6,
+    sizeMismatch: -14,
+    sizeUnknown: 0,
+    material: 12,
+    materialMismatch: -15,
+    negativeTerm: -25,
+    conditionMatch: 8,
+    conditionNear: 3,
+    conditionFar: -4,
+    conditionMismatch: -10,
+    titleOverlap: 6,
+    priceCloseness: 25,
+  },
+};
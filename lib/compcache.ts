@@ -0,0 +1,109 @@
+import type { CacheStore } from "./stores";
+import type { CompFetchers } from "./valuation";
+import type { SoldFetchResult } from "./sold/types";
+import { sha256 } from "./util";
+import { siteKey } from "./marketplaces";
+
+/**
+ * ===== COMPS CACHE (second tier) =====
+ * The response cache is per listing (item, title, price); this one keeps the raw
+ * comp sets per (source, marketplace, normalized query, window), so other listings
+ * of the same model and re-priced listings only redo the valuation, not the fetches.
+ * Lives in the same CacheStore as the responses.
+ */
+export const COMPS_CACHE_TTL_MS = {
+  // live listings come and go within hours
+  active: 1000 * 60 * 30,
+  // sold windows are days wide; a few hours behind changes little
+  sold: 1000 * 60 * 60 * 6,
+};
+
+// hit: every fetch came from the tier; partial: some did (sold ladder); skipped: tier not consulted
+export type CacheTierStatus = "hit" | "miss" | "partial" | "bypass" | "skipped";
+
+export type CompsCacheReport = { active: CacheTierStatus; sold: CacheTierStatus };
+
+/**
+ * Cache key part for a query: what eBay receives, with only case and spacing folded.
+ * Quoted phrases stay whole and in order ("Submariner" "box" is not "Submariner box");
+ * exclusions are a set, so they are sorted into their own list.
+ */
+export function normalizeCompQuery(query: string): string {
+  const terms: string[] = [];
+  const excluded = new Set<string>();
+  for (const m of query.matchAll(/(-?)(?:"([^"]*)"|(\S+))/g)) {
+    const text = (m[2] ?? m[3]).trim().replace(/\s+/g, " ").toLowerCase();
+    if (!text) continue;
+    const term = m[2] != null ? `"${text}"` : text;
+    if (m[1]) excluded.add(term);
+    else terms.push(term);
+  }
+  return JSON.stringify({ terms, excluded: Array.from(excluded).sort() });
+}
+
+// failed or budget-skipped providers would pin a degraded result for hours
+function soldCacheable(result: SoldFetchResult): boolean {
+  return !result.cooldownActive && result.attempts.every((a) => !a.error && !a.note);
+}
+
+function tierStatus(hits: number, misses: number, bypass: boolean): CacheTierStatus {
+  if (bypass) return "bypass";
+  if (!hits && !misses) return "skipped";
+  return !misses ? "hit" : !hits ? "miss" : "partial";
+}
+
+/**
+ * Wraps `fetchers` with the comps tier. `bypass` (nocache=1) skips reads but still
+ * refreshes the entries; report() summarizes this analysis' lookups.
+ */
+export function withCompsCache(
+  fetchers: CompFetchers,
+  cache: CacheStore,
+  opts: { bypass?: boolean } = {}
+): { fetchers: CompFetchers; report(): CompsCacheReport } {
+  const counts = { active: { hits: 0, misses: 0 }, sold: { hits: 0, misses: 0 } };
+
+  async function cached<T>(
+    kind: "active" | "sold",
+    key: string,
+    run: () => Promise<T>,
+    cacheable: (value: T) => boolean
+  ): Promise<T> {
+    const cacheKey = sha256(`comps-v2:${kind}:${key}`);
+    if (!opts.bypass) {
+      const entry = await cache.get(cacheKey);
+      if (entry?.value && new Date(entry.expiresAt).getTime() > Date.now()) {
+        counts[kind].hits++;
+        return entry.value as T;
+      }
+    }
+
+    counts[kind].misses++;
+    const value = await run();
+    if (cacheable(value)) await cache.set(cacheKey, value, new Date(Date.now() + COMPS_CACHE_TTL_MS[kind]));
+    return value;
+  }
+
+  return {
+    fetchers: {
+      active: (source, p) =>
+        cached(
+          "active",
+          `${source.id}:${siteKey(p)}:${p.currency}:${p.filter}:${p.limit}:${normalizeCompQuery(p.query)}`,
+          () => fetchers.active(source, p),
+          () => true
+        ),
+      sold: (source, p) =>
+        cached(
+          "sold",
+          `${source.id}:${siteKey(p)}:${p.currency}:${p.daysBack}:${p.limit}:${normalizeCompQuery(p.query)}`,
+          () => fetchers.sold(source, p),
+          soldCacheable
+        ),
+    },
+    report: () => ({
+      active: tierStatus(counts.active.hits, counts.active.misses, !!opts.bypass),
+      sold: tierStatus(counts.sold.hits, counts.sold.misses, !!opts.bypass),
+    }),
+  };
+}
@@ -0,0 +1,93 @@
+import type { Comp } from "./types";
+import { normalize } from "./util";
+
+/**
+ * ===== CONDITION GRADES =====
+ * Every marketplace wording (eBay, Vestiaire, The RealReal, Poshmark, free text)
+ * maps onto one scale, best first.
+ */
+export type ConditionGrade = "new_with_tags" | "new" | "excellent" | "very_good" | "good" | "fair" | "poor";
+
+export const CONDITION_GRADES: ConditionGrade[] = [
+  "new_with_tags",
+  "new",
+  "excellent",
+  "very_good",
+  "good",
+  "fair",
+  "poor",
+];
+
+// price relative to an "excellent" example of the same bag
+const GRADE_MULTIPLIER: Record<ConditionGrade, number> = {
+  new_with_tags: 1.22,
+  new: 1.15,
+  excellent: 1.0,
+  very_good: 0.92,
+  good: 0.83,
+  fair: 0.7,
+  poor: 0.45,
+};
+
+// checked in order: first phrase hit wins
+const CONDITION_PHRASES: [ConditionGrade, string[]][] = [
+  ["poor", ["for parts", "not working", "damaged", "as is", "heavily worn", "poor"]],
+  ["new_with_tags", ["new with tags", "never worn with tag", "nwt", "bnwt", "brand new with tags"]],
+  ["new", ["new without tags", "new with box", "new other", "never worn", "nwot", "brand new", "unworn"]],
+  ["excellent", ["pristine", "like new", "mint", "excellent", "pre-owned excellent"]],
+  ["very_good", ["very good"]],
+  ["fair", ["fair", "well worn", "flaws", "wear and tear"]],
+  ["good", ["good", "pre-owned", "pre owned", "used", "gently used"]],
+];
+
+export function gradeFromText(text: string | undefined | null): ConditionGrade | null {
+  const t = ` ${normalize(text || "")} `;
+  if (!t.trim()) return null;
+  // eBay's plain "New" condition
+  if (t.trim() === "new") return "new";
+  for (const [grade, phrases] of CONDITION_PHRASES) {
+    if (phrases.some((p) => t.includes(` ${normalize(p)} `))) return grade;
+  }
+  return null;
+}
+
+/**
+ * Explicit condition field first, title cues as fallback.
+ */
+export function resolveGrade(condition: string | undefined, title: string): {
+  grade: ConditionGrade | null;
+  from: "condition" | "title" | null;
+} {
+  const fromField = gradeFromText(condition);
+  if (fromField) return { grade: fromField, from: "condition" };
+  const fromTitle = gradeFromText(title);
+  if (fromTitle) return { grade: fromTitle, from: "title" };
+  return { grade: null, from: null };
+}
+
+export function gradeDistance(a: ConditionGrade, b: ConditionGrade): number {
+  return Math.abs(CONDITION_GRADES.indexOf(a) - CONDITION_GRADES.indexOf(b));
+}
+
+/**
+ * Comp price restated as if it were in the target's condition (clamped to ±40%).
+ */
+export function conditionAdjustedPrice(comp: Comp, target: ConditionGrade | null): number {
+  const grade = comp.conditionGrade;
+  if (!target || !grade) return comp.price.amount;
+  const factor = Math.max(0.6, Math.min(1.4, GRADE_MULTIPLIER[target] / GRADE_MULTIPLIER[grade]));
+  return comp.price.amount * factor;
+}
+
+export function gradeMix(comps: Comp[]): Partial<Record<ConditionGrade | "unknown", number>> {
+  const mix: Partial<Record<ConditionGrade | "unknown", number>> = {};
+  for (const c of comps) {
+    const k = c.conditionGrade || "unknown";
+    mix[k] = (mix[k] || 0) + 1;
+  }
+  return mix;
+}
+
+export function gradeLabel(grade: ConditionGrade): string {
+  return grade.replace(/_/g, " ");
+}
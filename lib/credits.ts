@@ -0,0 +1,117 @@
+import type { CreditPeriod, DebitParams, UserRow, UserStore } from "./stores";
+
+/**
+ * ===== PLANS =====
+ * Each plan gets a per-period allowance; purchased credits (users.credits_remaining)
+ * are only spent once the allowance for the current period is used up.
+ */
+export type PlanId = "free" | "plus" | "pro";
+
+type Plan = {
+  allowance: number;
+  period: CreditPeriod;
+  analysisCost: number;
+  // cache hits are free by default; set > 0 to discount instead
+  cachedHitCost: number;
+};
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: { allowance: 3, period: "day", analysisCost: 1, cachedHitCost: 0 },
+  plus: { allowance: 150, period: "month", analysisCost: 1, cachedHitCost: 0 },
+  pro: { allowance: 1000, period: "month", analysisCost: 1, cachedHitCost: 0 },
+};
+
+export function planFor(planId: string | null | undefined): Plan {
+  return PLANS[(planId || "free") as PlanId] || PLANS.free;
+}
+
+export type CreditState = {
+  plan: string;
+  remaining: number;
+  allowanceRemaining: number;
+  resetsAt: string;
+  charged: number;
+};
+
+export type DebitResult = {
+  ok: boolean;
+  ledgerId: number | null;
+  credits: CreditState;
+};
+
+// UTC; shared with the memory store's debit (the Supabase RPC rolls periods the same way)
+export function periodStart(period: CreditPeriod, at = new Date()): Date {
+  return period === "day"
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
+
+function periodEnd(period: CreditPeriod, start: Date): Date {
+  return period === "day"
+    ? new Date(start.getTime() + 24 * 60 * 60 * 1000)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Current balance without charging (used for free cache hits).
+ */
+export function creditsSnapshot(user: any): CreditState {
+  const plan = planFor(user?.plan);
+  const start = periodStart(plan.period);
+  const startedAt = user?.period_started_at ? new Date(user.period_started_at) : null;
+  const used = startedAt && startedAt.getTime() >= start.getTime() ? Number(user?.period_used || 0) : 0;
+
+  return {
+    plan: user?.plan || "free",
+    remaining: user?.credits_remaining ?? 0,
+    allowanceRemaining: Math.max(plan.allowance - used, 0),
+    resetsAt: periodEnd(plan.period, start).toISOString(),
+    charged: 0,
+  };
+}
+
+/**
+ * Atomic debit (UserStore.debit; debit_analysis_credit RPC on Supabase): locks the user
+ * row, rolls the period, spends allowance then balance, and writes the ledger row.
+ */
+export async function debitCredits(
+  user: UserRow,
+  params: { cost: number; reason: DebitParams["reason"]; ref: string },
+  users: UserStore
+): Promise<DebitResult> {
+  const plan = planFor(user?.plan);
+
+  const row = await users.debit({
+    deviceId: user.device_id,
+    plan: user?.plan || "free",
+    cost: params.cost,
+    allowance: plan.allowance,
+    period: plan.period,
+    reason: params.reason,
+    ref: params.ref,
+  });
+
+  return {
+    ok: row.ok,
+    ledgerId: row.ledgerId,
+    credits: {
+      plan: user?.plan || "free",
+      remaining: row.creditsRemaining,
+      allowanceRemaining: row.allowanceRemaining,
+      resetsAt: periodEnd(plan.period, new Date(row.periodStartedAt)).toISOString(),
+      charged: row.ok ? params.cost : 0,
+    },
+  };
+}
+
+/**
+ * Reverses a debit when the analysis it paid for failed. The ledger row is claimed
+ * atomically, so a retried or concurrent refund credits the user once.
+ */
+export async function refundCredits(ledgerId: number, users: UserStore) {
+  try {
+    await users.refund(ledgerId);
+  } catch (e: any) {
+    console.error("credit refund failed:", e?.message || String(e));
+  }
+}
@@ -0,0 +1,78 @@
+import type { SoldStrategyAttempt } from "./strategy";
+import type { ErrorCode } from "./errors";
+import { errorCodeOf } from "./errors";
+import { isBudgetRefusal } from "./budget";
+
+/**
+ * ===== DEGRADED-MODE CONTRACT =====
+ * Every upstream a valuation depends on reports one status, so clients can tell
+ * "no comps exist" (empty) from "eBay was down" (error / rate_limited / skipped_cooldown).
+ */
+export type SourceStatus = "ok" | "empty" | "error" | "rate_limited" | "skipped_cooldown";
+
+export type SourceReport = {
+  status: SourceStatus;
+  // ErrorCode when status is error / rate_limited
+  code?: ErrorCode;
+  // sold only: status per provider in the chain
+  providers?: Record<string, SourceStatus>;
+};
+
+// fresh enough to retry soon, long enough to absorb a burst of identical requests
+export const DEGRADED_CACHE_TTL_MS = 1000 * 60 * 10;
+
+const FAILED: SourceStatus[] = ["error", "rate_limited", "skipped_cooldown"];
+
+export function isFailedStatus(status: SourceStatus): boolean {
+  return FAILED.includes(status);
+}
+
+export function failureReport(err: any): SourceReport {
+  const code = errorCodeOf(err);
+  if (isBudgetRefusal(err)) return { status: "skipped_cooldown", code };
+  return { status: code === "UPSTREAM_RATE_LIMITED" ? "rate_limited" : "error", code };
+}
+
+// ok beats empty beats the failures (rate limit is the most specific failure)
+const PROVIDER_RANK: SourceStatus[] = ["ok", "empty", "rate_limited", "skipped_cooldown", "error"];
+
+export function soldReport(attempts: SoldStrategyAttempt[], compsFound: number): SourceReport {
+  const providers: Record<string, SourceStatus> = {};
+  const codes: ErrorCode[] = [];
+
+  for (const a of attempts) {
+    for (const p of a.providers) {
+      const status: SourceStatus = p.note
+        ? "skipped_cooldown"
+        : p.error
+          ? p.error === "UPSTREAM_RATE_LIMITED"
+            ? "rate_limited"
+            : "error"
+          : p.fetched
+            ? "ok"
+            : "empty";
+      if (p.error) codes.push(p.error as ErrorCode);
+
+      const prev = providers[p.provider];
+      if (!prev || PROVIDER_RANK.indexOf(status) < PROVIDER_RANK.indexOf(prev)) providers[p.provider] = status;
+    }
+  }
+
+  if (compsFound > 0) return { status: "ok", providers };
+
+  // nothing came back: only "empty" if no provider in the chain failed
+  const statuses = Object.values(providers);
+  const failed = statuses.filter(isFailedStatus);
+  if (!failed.length) return { status: "empty", providers };
+
+  const status: SourceStatus = failed.includes("rate_limited")
+    ? "rate_limited"
+    : failed.includes("error")
+      ? "error"
+      : "skipped_cooldown";
+  return { status, code: codes[0], providers };
+}
+
+export function isDegraded(sources: Record<string, SourceReport | null | undefined>): boolean {
+  return Object.values(sources).some((s) => !!s && isFailedStatus(s.status));
+}
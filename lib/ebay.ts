@@ -0,0 +1,337 @@
+import type { Comp, SoldComp } from "./types";
+import type { ActiveCompsParams, SoldCompsParams } from "./sources/types";
+import { findingGlobalId, marketplaceLocale } from "./marketplaces";
+import { misconfigured, upstreamError } from "./errors";
+import type { UpstreamPriority, UpstreamService } from "./budget";
+import { withUpstreamBudget } from "./budget";
+import type { CooldownStore } from "./stores";
+import { fixtureMode, recordEbayCall, replayEbayCall } from "./replay";
+
+/**
+ * ===== ENV =====
+ */
+const EBAY_CLIENT_ID = process.env.EBAY_CLIENT_ID || "";
+const EBAY_CLIENT_SECRET = process.env.EBAY_CLIENT_SECRET || "";
+const EBAY_ENV = (process.env.EBAY_ENV || "PROD").toUpperCase(); // PROD | SANDBOX
+
+const EBAY_BASE =
+  EBAY_ENV === "SANDBOX" ? "https://api.sandbox.ebay.com" : "https://api.ebay.com";
+
+// Finding API endpoint (works with AppID)
+const EBAY_FINDING_ENDPOINT = "https://svcs.ebay.com/services/search/FindingService/v1";
+
+const DEFAULT_SCOPE = "https://api.ebay.com/oauth/api_scope";
+const INSIGHTS_SCOPE = "https://api.ebay.com/oauth/api_scope/buy.marketplace.insights";
+
+// keyed by OAuth scope
+const tokenCache = new Map<string, { accessToken: string; expiresAtMs: number }>();
+
+/**
+ * ===== BUDGETED FETCH =====
+ * Every eBay call goes through the shared budget / breaker (lib/budget),
+ * except replays of recorded fixtures (lib/replay).
+ */
+async function ebayFetch(
+  service: UpstreamService,
+  budget: { priority?: UpstreamPriority; cooldowns?: CooldownStore },
+  label: string,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const mode = fixtureMode();
+  if (mode === "replay") return replayEbayCall(service, label, url, init);
+
+  return withUpstreamBudget(
+    service,
+    budget.priority || "free",
+    async () => {
+      const r = await fetch(url, init);
+      if (!r.ok) {
+        const txt = await r.text();
+        throw upstreamError(label, r.status, txt);
+      }
+      return mode === "record" ? recordEbayCall(service, url, init, r) : r;
+    },
+    budget.cooldowns
+  );
+}
+
+/**
+ * ===== EBAY TOKEN (App token) =====
+ */
+export async function getEbayAppToken(scope: string = DEFAULT_SCOPE, cooldowns?: CooldownStore): Promise<string> {
+  const now = Date.now();
+  const cached = tokenCache.get(scope);
+  if (cached && cached.expiresAtMs > now + 30_000) return cached.accessToken;
+
+  if (!EBAY_CLIENT_ID || !EBAY_CLIENT_SECRET) {
+    throw misconfigured("EBAY_CLIENT_ID / EBAY_CLIENT_SECRET env vars");
+  }
+
+  const basic = Buffer.from(`${EBAY_CLIENT_ID}:${EBAY_CLIENT_SECRET}`).toString("base64");
+
+  // every call needs a token, so minting one is never held back for paid plans
+  const tokenUrl = `${EBAY_BASE}/identity/v1/oauth2/token`;
+  const r = await ebayFetch("token", { priority: "paid", cooldowns }, "eBay token", tokenUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${basic}`,
+    },
+    body: new URLSearchParams({
+      grant_type: "client_credentials",
+      scope,
+    }).toString(),
+  });
+
+  const json = (await r.json()) as { access_token: string; expires_in: number };
+  tokenCache.set(scope, { accessToken: json.access_token, expiresAtMs: now + json.expires_in * 1000 });
+  return json.access_token;
+}
+
+/**
+ * ===== EBAY BROWSE SEARCH (ACTIVE comps) =====
+ */
+export async function fetchActiveComps(params: ActiveCompsParams): Promise<Comp[]> {
+  const token = await getEbayAppToken(DEFAULT_SCOPE, params.cooldowns);
+
+  const q = params.query.trim().slice(0, 200);
+  const url = new URL(`${EBAY_BASE}/buy/browse/v1/item_summary/search`);
+  url.searchParams.set("q", q);
+  url.searchParams.set("limit", String(params.limit));
+  if (params.filter && String(params.filter).trim()) {
+    url.searchParams.set("filter", String(params.filter).trim());
+  }
+
+  const r = await ebayFetch("browse", params, "Browse search", url.toString(), {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "X-EBAY-C-MARKETPLACE-ID": params.marketplaceId,
+      "Accept-Language": marketplaceLocale(params.marketplaceId, params.locale),
+    },
+  });
+
+  const json = await r.json();
+  const items = (json?.itemSummaries || []) as any[];
+
+  return items
+    .map((it) => {
+      const amount = Number(it?.price?.value);
+      const currency = it?.price?.currency || params.currency;
+      if (!Number.isFinite(amount) || amount <= 0) return null;
+
+      return {
+        title: String(it?.title || "").slice(0, 180),
+        price: { amount, currency },
+        condition: it?.condition,
+        url: it?.itemWebUrl || it?.itemHref || "",
+        itemId: it?.itemId,
+      } as Comp;
+    })
+    .filter(Boolean)
+    .filter((c: Comp) => !!c.url);
+}
+
+/**
+ * ===== EBAY FINDING API (SOLD comps) =====
+ */
+export function toFindingKeywords(q: string): string {
+  return String(q || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/"([^"]+)"/g, "$1")
+    .replace(/\s+-"[^"]+"/g, " ")
+    .replace(/\s+-\S+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export async function fetchFindingSoldComps(params: SoldCompsParams): Promise<SoldComp[]> {
+  if (!EBAY_CLIENT_ID) throw misconfigured("EBAY_CLIENT_ID (Finding AppID)");
+
+  const keywords = toFindingKeywords(params.query).slice(0, 250);
+
+  const nowMs = Date.now();
+  const endTo = new Date(nowMs);
+  const endFrom = new Date(nowMs - params.daysBack * 24 * 60 * 60 * 1000);
+
+  const url = new URL(EBAY_FINDING_ENDPOINT);
+  url.searchParams.set("OPERATION-NAME", "findCompletedItems");
+  url.searchParams.set("SERVICE-VERSION", "1.13.0");
+  url.searchParams.set("SECURITY-APPNAME", EBAY_CLIENT_ID);
+  url.searchParams.set("RESPONSE-DATA-FORMAT", "JSON");
+  url.searchParams.set("REST-PAYLOAD", "true");
+  url.searchParams.set("GLOBAL-ID", findingGlobalId(params.marketplaceId, params.locale));
+
+  url.searchParams.set("keywords", keywords);
+  url.searchParams.set("paginationInput.entriesPerPage", String(params.limit));
+
+  url.searchParams.set("itemFilter(0).name", "SoldItemsOnly");
+  url.searchParams.set("itemFilter(0).value", "true");
+
+  url.searchParams.set("itemFilter(1).name", "EndTimeFrom");
+  url.searchParams.set("itemFilter(1).value", endFrom.toISOString());
+
+  url.searchParams.set("itemFilter(2).name", "EndTimeTo");
+  url.searchParams.set("itemFilter(2).value", endTo.toISOString());
+
+  const r = await ebayFetch("finding", params, "Finding (sold)", url.toString(), { method: "GET" });
+
+  const json = await r.json();
+  const items =
+    json?.findCompletedItemsResponse?.[0]?.searchResult?.[0]?.item || ([] as any[]);
+
+  return (items as any[])
+    .map((it) => {
+      const priceValue =
+        it?.sellingStatus?.[0]?.currentPrice?.[0]?.__value__ ??
+        it?.sellingStatus?.currentPrice?.__value__;
+      const amount = Number(priceValue);
+
+      const currency =
+        it?.sellingStatus?.[0]?.currentPrice?.[0]?.["@currencyId"] ||
+        it?.sellingStatus?.currentPrice?.["@currencyId"] ||
+        params.currency;
+
+      if (!Number.isFinite(amount) || amount <= 0) return null;
+
+      const title = String(it?.title?.[0] || it?.title || "").slice(0, 180);
+      const url = String(it?.viewItemURL?.[0] || it?.viewItemURL || "");
+      const itemId = String(it?.itemId?.[0] || it?.itemId || "");
+
+      const soldDate =
+        it?.listingInfo?.[0]?.endTime?.[0] || it?.listingInfo?.endTime || undefined;
+
+      return {
+        title,
+        price: { amount, currency },
+        condition:
+          it?.condition?.[0]?.conditionDisplayName?.[0] ||
+          it?.condition?.[0]?.conditionDisplayName,
+        url,
+        itemId,
+        soldDate,
+      } as SoldComp;
+    })
+    .filter(Boolean)
+    .filter((c: SoldComp) => !!c.url && !!c.title);
+}
+
+/**
+ * ===== EBAY MARKETPLACE INSIGHTS (SOLD comps, limited-release API) =====
+ */
+export async function fetchInsightsSoldComps(params: SoldCompsParams): Promise<SoldComp[]> {
+  const token = await getEbayAppToken(INSIGHTS_SCOPE, params.cooldowns);
+
+  const nowMs = Date.now();
+  const endTo = new Date(nowMs);
+  const endFrom = new Date(nowMs - params.daysBack * 24 * 60 * 60 * 1000);
+
+  const url = new URL(`${EBAY_BASE}/buy/marketplace_insights/v1_beta/item_sales/search`);
+  url.searchParams.set("q", toFindingKeywords(params.query).slice(0, 200));
+  url.searchParams.set("limit", String(Math.min(params.limit, 200)));
+  url.searchParams.set("filter", `lastSoldDate:[${endFrom.toISOString()}..${endTo.toISOString()}]`);
+
+  const r = await ebayFetch("insights", params, "Insights (sold)", url.toString(), {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "X-EBAY-C-MARKETPLACE-ID": params.marketplaceId,
+      "Accept-Language": marketplaceLocale(params.marketplaceId, params.locale),
+    },
+  });
+
+  const json = await r.json();
+  const items = (json?.itemSales || []) as any[];
+
+  return items
+    .map((it) => {
+      const amount = Number(it?.lastSoldPrice?.value);
+      const currency = it?.lastSoldPrice?.currency || params.currency;
+      if (!Number.isFinite(amount) || amount <= 0) return null;
+
+      return {
+        title: String(it?.title || "").slice(0, 180),
+        price: { amount, currency },
+        condition: it?.condition,
+        url: it?.itemWebUrl || it?.itemHref || "",
+        itemId: it?.itemId,
+        soldDate: it?.lastSoldDate,
+      } as SoldComp;
+    })
+    .filter(Boolean)
+    .filter((c: SoldComp) => !!c.url && !!c.title);
+}
+
+/**
+ * ===== EBAY BROWSE GET ITEM (listing details) =====
+ */
+export type EbayItemDetails = {
+  itemId: string;
+  legacyItemId: string | null;
+  title: string;
+  price: { amount: number; currency: string } | null;
+  condition: string | null;
+  brand: string | null;
+  categoryPath: string | null;
+  itemSpecifics: Record<string, string>;
+  shipping: { amount: number; currency: string; type: string | null } | null;
+  seller: { username: string | null; feedbackPercentage: number | null; feedbackScore: number | null } | null;
+  url: string;
+};
+
+// Browse getItem wants the RESTful id ("v1|123|0"); listing URLs carry the legacy one
+export async function fetchEbayItem(
+  itemId: string,
+  marketplaceId: string,
+  priority: UpstreamPriority = "free",
+  cooldowns?: CooldownStore,
+  locale?: string
+): Promise<EbayItemDetails> {
+  const token = await getEbayAppToken(DEFAULT_SCOPE, cooldowns);
+
+  const url = itemId.includes("|")
+    ? new URL(`${EBAY_BASE}/buy/browse/v1/item/${encodeURIComponent(itemId)}`)
+    : new URL(`${EBAY_BASE}/buy/browse/v1/item/get_item_by_legacy_id`);
+  if (!itemId.includes("|")) url.searchParams.set("legacy_item_id", itemId);
+
+  const r = await ebayFetch("browse", { priority, cooldowns }, "Browse getItem", url.toString(), {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "X-EBAY-C-MARKETPLACE-ID": marketplaceId,
+      "Accept-Language": marketplaceLocale(marketplaceId, locale),
+    },
+  });
+
+  const it = (await r.json()) as any;
+
+  const amount = Number(it?.price?.value);
+  const ship = (it?.shippingOptions || [])[0];
+  const shipAmount = Number(ship?.shippingCost?.value);
+
+  const itemSpecifics: Record<string, string> = {};
+  for (const a of (it?.localizedAspects || []) as any[]) {
+    if (a?.name && a?.value) itemSpecifics[String(a.name)] = String(a.value);
+  }
+
+  return {
+    itemId: String(it?.itemId || itemId),
+    legacyItemId: it?.legacyItemId ? String(it.legacyItemId) : null,
+    title: String(it?.title || "").slice(0, 180),
+    price: Number.isFinite(amount) && amount > 0 ? { amount, currency: it.price.currency } : null,
+    condition: it?.condition || null,
+    brand: it?.brand || itemSpecifics["Brand"] || null,
+    categoryPath: it?.categoryPath || null,
+    itemSpecifics,
+    shipping: Number.isFinite(shipAmount)
+      ? { amount: shipAmount, currency: ship.shippingCost.currency, type: ship?.shippingCostType || null }
+      : null,
+    seller: it?.seller
+      ? {
+          username: it.seller.username || null,
+          feedbackPercentage: it.seller.feedbackPercentage != null ? Number(it.seller.feedbackPercentage) : null,
+          feedbackScore: it.seller.feedbackScore != null ? Number(it.seller.feedbackScore) : null,
+        }
+      : null,
+    url: it?.itemWebUrl || "",
+  };
+}
@@ -0,0 +1,115 @@
+import dns from "dns";
+import https from "https";
+import net from "net";
+
+/**
+ * ===== OUTBOUND URL GUARD =====
+ * User-supplied URLs the server calls (watchlist webhooks) must point at the public
+ * internet: no loopback, private, link-local (cloud metadata), CGNAT or multicast hosts.
+ * Checked when the URL is saved and again right before each call (DNS can change);
+ * the call then connects to the address that was checked, never re-resolving the host.
+ */
+function ipv4Blocked(ip: string): boolean {
+  const [a, b] = ip.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function ipv6Blocked(ip: string): boolean {
+  const v = ip.toLowerCase();
+  // IPv4-mapped / NAT64: judge the embedded IPv4 address
+  const embedded = v.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return ipv4Blocked(embedded[1]);
+  if (v.startsWith("::ffff:") || v.startsWith("64:ff9b::")) return true;
+  return (
+    v === "::" ||
+    v === "::1" ||
+    /^f[cd]/.test(v) || // unique local fc00::/7
+    /^fe[89ab]/.test(v) || // link-local fe80::/10
+    v.startsWith("ff") // multicast
+  );
+}
+
+export function addressBlocked(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 4) return ipv4Blocked(ip);
+  if (family === 6) return ipv6Blocked(ip);
+  return true;
+}
+
+export type PinnedUrl = { url: URL; address: string; family: 4 | 6 };
+
+// the URL plus the checked address to connect to, or why it may not be called
+export async function resolvePublicHttpsUrl(
+  raw: string
+): Promise<{ target: PinnedUrl; problem: null } | { target: null; problem: string }> {
+  const refuse = (problem: string) => ({ target: null, problem });
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return refuse("not a URL");
+  }
+  if (url.protocol !== "https:") return refuse("not an https URL");
+  if (url.username || url.password) return refuse("credentials in the URL");
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return refuse("host does not resolve");
+  }
+  if (!addresses.length || addresses.some(addressBlocked)) return refuse("host is not a public address");
+  return { target: { url, address: addresses[0], family: net.isIP(addresses[0]) as 4 | 6 }, problem: null };
+}
+
+// null when the URL is safe to call, else why not
+export async function publicHttpsUrlProblem(raw: string): Promise<string | null> {
+  return (await resolvePublicHttpsUrl(raw)).problem;
+}
+
+/**
+ * POSTs to target.address (TLS still verifies the certificate for the URL's host),
+ * so a host that re-resolves to a private address after the check is never reached.
+ * Redirects are not followed. Resolves to the HTTP status.
+ */
+export function postToPinnedUrl(
+  target: PinnedUrl,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> {
+  const lookup = (_host: string, opts: any, cb: (...args: any[]) => void) =>
+    opts?.all
+      ? cb(null, [{ address: target.address, family: target.family }])
+      : cb(null, target.address, target.family);
+
+  return new Promise((resolve, reject) => {
+    const req = https.request(
+      target.url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode || 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
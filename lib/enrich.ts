@@ -0,0 +1,163 @@
+import type { AnalyzeRequest } from "./types";
+import { detectSourceFromUrl, getSourceAdapter } from "./sources";
+import type { EbayItemDetails } from "./ebay";
+import { fetchEbayItem } from "./ebay";
+import { gradeFromText } from "./condition";
+import { normalize, sha256 } from "./util";
+import { siteKey } from "./marketplaces";
+import { errorCodeOf } from "./errors";
+import type { UpstreamPriority } from "./budget";
+import type { Stores } from "./stores";
+import { defaultStores } from "./stores";
+
+/**
+ * ===== EBAY ENRICHMENT =====
+ * eBay requests with an itemId (or a listing URL) are completed / checked
+ * against the listing itself; eBay wins, disagreeing client values are flagged.
+ * Listings are cached per item (ITEM_CACHE_TTL_MS), so repeated analyses of one
+ * listing (response-cache hits, users out of credits) don't spend Browse quota.
+ */
+const ITEM_CACHE_TTL_MS = 1000 * 60 * 15;
+
+export type EnrichmentMismatch = { field: string; client: any; ebay: any };
+
+export type Enrichment = {
+  status: "ok" | "failed";
+  itemId: string;
+  marketplaceId: string;
+  filled: string[];
+  mismatches: EnrichmentMismatch[];
+  listing: Pick<EbayItemDetails, "itemSpecifics" | "shipping" | "seller" | "categoryPath" | "url"> | null;
+  error?: string;
+};
+
+function titlesDiffer(a: string, b: string) {
+  return normalize(a) !== normalize(b);
+}
+
+function conditionsDiffer(a: string, b: string) {
+  const ga = gradeFromText(a);
+  const gb = gradeFromText(b);
+  if (ga && gb) return ga !== gb;
+  return normalize(a) !== normalize(b);
+}
+
+function brandsDiffer(a: string, b: string) {
+  const na = normalize(a);
+  const nb = normalize(b);
+  return !na.includes(nb) && !nb.includes(na);
+}
+
+async function cachedEbayItem(
+  itemId: string,
+  listing: { marketplaceId: string; locale?: string },
+  priority: UpstreamPriority | (() => Promise<UpstreamPriority>),
+  stores: Pick<Stores, "cache" | "cooldowns">
+): Promise<EbayItemDetails> {
+  const key = sha256(`ebay-item-v1:${siteKey(listing)}:${itemId}`);
+  const cached = await stores.cache.get(key);
+  if (cached?.value && new Date(cached.expiresAt).getTime() > Date.now()) return cached.value as EbayItemDetails;
+
+  const resolved = typeof priority === "function" ? await priority() : priority;
+  const item = await fetchEbayItem(itemId, listing.marketplaceId, resolved, stores.cooldowns, listing.locale);
+  await stores.cache.set(key, item, new Date(Date.now() + ITEM_CACHE_TTL_MS));
+  return item;
+}
+
+export async function enrichAnalyzeRequest(
+  body: AnalyzeRequest,
+  // deferred form: resolved only when the listing is not cached
+  priority: UpstreamPriority | (() => Promise<UpstreamPriority>) = "free",
+  stores: Pick<Stores, "cache" | "cooldowns"> = defaultStores()
+): Promise<{ body: AnalyzeRequest; enrichment: Enrichment | null }> {
+  // a bare itemId is taken to be eBay
+  const source = body?.source
+    ? getSourceAdapter(body.source)
+    : body?.url
+      ? detectSourceFromUrl(body.url)
+      : body?.itemId
+        ? getSourceAdapter("ebay")
+        : null;
+  if (source?.id !== "ebay") return { body, enrichment: null };
+
+  const listing = source.parseUrl(body.url || "");
+  const itemId = body.itemId || listing.itemId;
+  if (!itemId || listing.unsupported) return { body, enrichment: null };
+
+  const base: Enrichment = {
+    status: "ok",
+    itemId,
+    marketplaceId: listing.marketplaceId,
+    filled: [],
+    mismatches: [],
+    listing: null,
+  };
+
+  let item: EbayItemDetails;
+  try {
+    item = await cachedEbayItem(itemId, listing, priority, stores);
+  } catch (e: any) {
+    // fall back to what the client sent
+    console.error("eBay enrichment failed:", e?.message || String(e));
+    return { body, enrichment: { ...base, status: "failed", error: errorCodeOf(e) } };
+  }
+
+  const filled: string[] = [];
+  const mismatches: EnrichmentMismatch[] = [];
+  const out: AnalyzeRequest = { ...body, source: "ebay", itemId: item.legacyItemId || item.itemId };
+  if (!out.url) out.url = item.url;
+
+  if (item.title) {
+    if (!body.title) filled.push("title");
+    else if (titlesDiffer(body.title, item.title)) mismatches.push({ field: "title", client: body.title, ebay: item.title });
+    out.title = item.title;
+  }
+
+  if (item.price) {
+    if (!body.price || typeof body.price.amount !== "number") filled.push("price");
+    else {
+      if (String(body.price.currency || "").toUpperCase() !== item.price.currency) {
+        mismatches.push({ field: "price.currency", client: body.price.currency, ebay: item.price.currency });
+      }
+      if (Math.abs(body.price.amount - item.price.amount) > 0.01) {
+        mismatches.push({ field: "price.amount", client: body.price.amount, ebay: item.price.amount });
+      }
+    }
+    out.price = item.price;
+  }
+
+  if (item.condition) {
+    if (!body.condition) filled.push("condition");
+    else if (conditionsDiffer(body.condition, item.condition)) {
+      mismatches.push({ field: "condition", client: body.condition, ebay: item.condition });
+    }
+    out.condition = item.condition;
+  }
+
+  if (item.brand) {
+    if (!body.brand) filled.push("brand");
+    else if (brandsDiffer(body.brand, item.brand)) mismatches.push({ field: "brand", client: body.brand, ebay: item.brand });
+    out.brand = item.brand;
+  }
+
+  if (!body.categoryHint && item.categoryPath) {
+    filled.push("categoryHint");
+    out.categoryHint = item.categoryPath;
+  }
+
+  return {
+    body: out,
+    enrichment: {
+      ...base,
+      filled,
+      mismatches,
+      listing: {
+        itemSpecifics: item.itemSpecifics,
+        shipping: item.shipping,
+        seller: item.seller,
+        categoryPath: item.categoryPath,
+        url: item.url,
+      },
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import type { VercelResponse } from "@vercel/node";
+
+/**
+ * ===== ERROR CATALOG =====
+ * Every error response is { error, code, details? }: `code` is stable and
+ * machine-readable, `error` is a safe message (never upstream/raw text).
+ *
+ * 400 INVALID_REQUEST          body is not a JSON object / fails the schema (see details)
+ * 400 MISSING_DEVICE_ID        x-device-id header missing
+ * 400 MISSING_TITLE            no title (and none could be fetched from the listing)
+ * 400 INVALID_URL              url is not an http(s) URL
+ * 400 INVALID_PRICE            price.amount missing, not a number or out of bounds
+ * 400 INVALID_CURRENCY         price.currency is not a supported ISO 4217 code
+ * 400 INVALID_FEES             fee overrides malformed
+ * 400 UNSUPPORTED_SOURCE       source / URL is not a supported marketplace
+ * 400 UNSUPPORTED_MARKETPLACE  eBay URL for a site we cannot map
+ * 400 UNSUPPORTED_CATEGORY     listing is not in a supported category
+ * 401 UNAUTHORIZED             cron routes: bad bearer secret
+ * 402 CREDITS_EXHAUSTED        plan allowance used up (Retry-After)
+ * 404 NOT_FOUND                watch id unknown for this device
+ * 405 METHOD_NOT_ALLOWED
+ * 409 WATCHLIST_FULL
+ * 502 UPSTREAM_AUTH_FAILED     eBay rejected our credentials
+ * 502 UPSTREAM_NOT_FOUND       eBay does not know the item
+ * 502 UPSTREAM_UNAVAILABLE     eBay / ECB errored or timed out
+ * 503 UPSTREAM_RATE_LIMITED    eBay quota hit; retry later
+ * 503 UPSTREAM_CIRCUIT_OPEN     breaker open after repeated eBay failures (Retry-After)
+ * 503 UPSTREAM_BUDGET_EXHAUSTED daily eBay budget spent, or left for paid plans (Retry-After)
+ * 500 SERVER_MISCONFIGURED     required env vars missing
+ * 500 INTERNAL_ERROR           anything else
+ */
+export const ERROR_CATALOG = {
+  INVALID_REQUEST: { status: 400, message: "Request is invalid." },
+  MISSING_DEVICE_ID: { status: 400, message: "Missing x-device-id header." },
+  MISSING_TITLE: { status: 400, message: "Missing listing title." },
+  INVALID_URL: { status: 400, message: "Listing URL is invalid." },
+  INVALID_PRICE: { status: 400, message: "Listing price is missing or invalid." },
+  INVALID_CURRENCY: { status: 400, message: "Currency is not supported." },
+  INVALID_FEES: { status: 400, message: "Fee overrides are invalid." },
+  UNSUPPORTED_SOURCE: { status: 400, message: "This marketplace is not supported." },
+  UNSUPPORTED_MARKETPLACE: { status: 400, message: "This eBay site is not supported." },
+  UNSUPPORTED_CATEGORY: { status: 400, message: "This item category is not supported." },
+  UNAUTHORIZED: { status: 401, message: "Unauthorized." },
+  CREDITS_EXHAUSTED: { status: 402, message: "Out of credits." },
+  NOT_FOUND: { status: 404, message: "Not found." },
+  METHOD_NOT_ALLOWED: { status: 405, message: "Method not allowed." },
+  WATCHLIST_FULL: { status: 409, message: "Watchlist is full." },
+  UPSTREAM_AUTH_FAILED: { status: 502, message: "Marketplace authentication failed." },
+  UPSTREAM_NOT_FOUND: { status: 502, message: "Marketplace listing not found." },
+  UPSTREAM_UNAVAILABLE: { status: 502, message: "Marketplace data is temporarily unavailable." },
+  UPSTREAM_RATE_LIMITED: { status: 503, message: "Marketplace rate limit reached. Try again later." },
+  UPSTREAM_CIRCUIT_OPEN: { status: 503, message: "Marketplace data is temporarily unavailable. Try again later." },
+  UPSTREAM_BUDGET_EXHAUSTED: { status: 503, message: "Daily marketplace quota reached. Try again later." },
+  SERVER_MISCONFIGURED: { status: 500, message: "Server is misconfigured." },
+  INTERNAL_ERROR: { status: 500, message: "Server error." },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CATALOG;
+
+export type FieldIssue = { field: string; code: ErrorCode; message: string };
+
+export type ErrorBody = { error: string; code: ErrorCode; details?: FieldIssue[]; [k: string]: any };
+
+export function errorBody(code: ErrorCode, extra: Partial<ErrorBody> = {}): ErrorBody {
+  return { error: ERROR_CATALOG[code].message, code, ...extra };
+}
+
+export function sendError(res: VercelResponse, code: ErrorCode, extra: Partial<ErrorBody> = {}) {
+  return res.status(ERROR_CATALOG[code].status).json(errorBody(code, extra));
+}
+
+/**
+ * ===== UPSTREAM ERRORS =====
+ * Thrown by lib/ebay + lib/fx; the message keeps the raw text for logs and
+ * diagnostics, `code` is what reaches the client.
+ */
+export type UpstreamError = Error & { code: ErrorCode; upstreamStatus: number | null; retryAfterSeconds?: number };
+
+export function upstreamError(service: string, status: number | null, text = ""): UpstreamError {
+  const rateLimited = status === 429 || /RateLimiter|exceeded the number of times/.test(text);
+  const code: ErrorCode = rateLimited
+    ? "UPSTREAM_RATE_LIMITED"
+    : status === 401 || status === 403
+      ? "UPSTREAM_AUTH_FAILED"
+      : status === 404
+        ? "UPSTREAM_NOT_FOUND"
+        : "UPSTREAM_UNAVAILABLE";
+  const err = new Error(`${service} error${status != null ? ` (${status})` : ""}: ${text}`) as UpstreamError;
+  err.code = code;
+  err.upstreamStatus = status;
+  return err;
+}
+
+export function misconfigured(what: string): UpstreamError {
+  const err = new Error(`Missing ${what}`) as UpstreamError;
+  err.code = "SERVER_MISCONFIGURED";
+  err.upstreamStatus = null;
+  return err;
+}
+
+export function errorCodeOf(err: any): ErrorCode {
+  const code = err?.code;
+  return typeof code === "string" && code in ERROR_CATALOG ? (code as ErrorCode) : "INTERNAL_ERROR";
+}
+
+// catch-all for route handlers: log everything, return only the catalog message
+export function sendUnexpectedError(res: VercelResponse, err: any, context = "API crash") {
+  console.error(`${context}:`, err);
+  const code = errorCodeOf(err);
+  if (err?.retryAfterSeconds) res.setHeader("Retry-After", String(err.retryAfterSeconds));
+  else if (code === "UPSTREAM_RATE_LIMITED") res.setHeader("Retry-After", "60");
+  return sendError(res, code);
+}
@@ -0,0 +1,216 @@
+import type { Comp, CompExclusion } from "./types";
+import type { DealThresholds } from "./scoring";
+
+/**
+ * ===== ESTIMATE EXPLANATION =====
+ * Built from the same values the valuation used (ranking output, weights,
+ * interval), so it answers "why this label?" without re-deriving anything.
+ */
+export type IncludedComp = {
+  title: string;
+  url: string;
+  price: { amount: number; currency: string };
+  // restated in the target's condition
+  adjustedPrice: number;
+  // share of the total weight, %
+  weightPct: number;
+  qualityScore: number;
+};
+
+export type LabelDriver = {
+  driver: string;
+  // effect on the market value the asking price is compared with
+  impact: "raises_value" | "lowers_value" | "info";
+  detail: string;
+};
+
+export type EstimateExplanation = {
+  comps: {
+    included: IncludedComp[];
+    excluded: CompExclusion[];
+    counts: { fetched: number; ranked: number; included: number; excluded: number };
+  };
+  marketValue: { method: string; detail: string };
+  range: { method: string; detail: string };
+  label: { label: string; ratio: number; thresholds: DealThresholds; drivers: LabelDriver[] };
+};
+
+const EXCLUDED_SHOWN = 25;
+
+function pctChange(pct: number): string {
+  return `${pct > 0 ? "+" : ""}${pct}%`;
+}
+
+function includedComps(comps: { comp: Comp; price: number; weight: number }[]): IncludedComp[] {
+  const total = comps.reduce((s, x) => s + x.weight, 0) || 1;
+  return comps
+    .map((x) => ({
+      title: x.comp.title,
+      url: x.comp.url,
+      price: x.comp.price,
+      adjustedPrice: Math.round(x.price),
+      weightPct: Number(((x.weight / total) * 100).toFixed(1)),
+      qualityScore: x.comp.qualityScore || 0,
+    }))
+    .sort((a, b) => b.weightPct - a.weightPct);
+}
+
+function ratioDriver(
+  label: string,
+  ratio: number,
+  asking: number,
+  marketValue: number,
+  currency: string,
+  thresholds: DealThresholds
+): LabelDriver {
+  const pct = Math.round(ratio * 100);
+  const great = Number((thresholds.great_deal * 100).toFixed(1));
+  const fair = Number((thresholds.fair_price * 100).toFixed(1));
+  const band =
+    label === "great_deal"
+      ? `at or under ${great}%`
+      : label === "fair_price"
+        ? `between ${great}% and ${fair}%`
+        : `above ${fair}%`;
+  return {
+    driver: "asking_vs_market",
+    impact: "info",
+    detail: `Asking ${Math.round(asking)} ${currency} is ${pct}% of the ${Math.round(marketValue)} ${currency} market value (${label} is ${band}).`,
+  };
+}
+
+export function explainSoldEstimate(input: {
+  label: string;
+  ratio: number;
+  thresholds: DealThresholds;
+  asking: number;
+  currency: string;
+  marketValue: number;
+  low: number;
+  high: number;
+  fetched: number;
+  ranked: number;
+  used: { comp: Comp; price: number; weight: number }[];
+  excluded: CompExclusion[];
+  conditionGrade: string | null;
+  conditionAdjustmentPct: number;
+  weightingAdjustmentPct: number;
+  interval: { level: number; iterations: number } | null;
+  outliers: { method: string; rejected: number };
+  relaxation: { level: string; steps: number };
+  fx: { converted: number; dropped: number };
+  risk: { level: string; reasons: { detail: string }[] };
+}): EstimateExplanation {
+  const drivers: LabelDriver[] = [
+    ratioDriver(input.label, input.ratio, input.asking, input.marketValue, input.currency, input.thresholds),
+  ];
+
+  if (input.conditionGrade && Math.abs(input.conditionAdjustmentPct) >= 1) {
+    drivers.push({
+      driver: "condition",
+      impact: input.conditionAdjustmentPct > 0 ? "raises_value" : "lowers_value",
+      detail: `Comps restated to ${input.conditionGrade.replace(/_/g, " ")} condition: ${pctChange(input.conditionAdjustmentPct)}.`,
+    });
+  }
+  if (Math.abs(input.weightingAdjustmentPct) >= 1) {
+    drivers.push({
+      driver: "weighting",
+      impact: input.weightingAdjustmentPct > 0 ? "raises_value" : "lowers_value",
+      detail: `Weighting recent, closely matching sales moved the median ${pctChange(input.weightingAdjustmentPct)}.`,
+    });
+  }
+  if (input.outliers.rejected) {
+    drivers.push({
+      driver: "outliers",
+      impact: "info",
+      detail: `${input.outliers.rejected} comp(s) left out as price outliers (${input.outliers.method}).`,
+    });
+  }
+  if (input.relaxation.steps > 0) {
+    drivers.push({
+      driver: "query_relaxation",
+      impact: "info",
+      detail: `Sold search broadened to ${input.relaxation.level}; confidence lowered ${input.relaxation.steps} step(s).`,
+    });
+  }
+  if (input.fx.converted || input.fx.dropped) {
+    drivers.push({
+      driver: "fx",
+      impact: "info",
+      detail: `${input.fx.converted} comp(s) converted to ${input.currency}; ${input.fx.dropped} dropped for missing rates.`,
+    });
+  }
+  if (input.risk.level !== "low") {
+    drivers.push({
+      driver: "risk",
+      impact: "info",
+      detail: `Authenticity risk ${input.risk.level}: ${input.risk.reasons.map((r) => r.detail).join(" ")}`,
+    });
+  }
+
+  return {
+    comps: {
+      included: includedComps(input.used),
+      excluded: input.excluded.slice(0, EXCLUDED_SHOWN),
+      counts: {
+        fetched: input.fetched,
+        ranked: input.ranked,
+        included: input.used.length,
+        excluded: input.excluded.length,
+      },
+    },
+    marketValue: {
+      method: "weighted-median",
+      detail: `Weighted median of ${input.used.length} sold comps, each restated in the listing's condition and weighted by match quality x recency.`,
+    },
+    range: input.interval
+      ? {
+          method: "bootstrap",
+          detail: `${Math.round(input.interval.level * 100)}% bootstrap interval of the weighted median (${input.interval.iterations} resamples): ${Math.round(input.low)}-${Math.round(input.high)} ${input.currency}.`,
+        }
+      : { method: "point", detail: "Too few comps to resample; range collapses to the market value." },
+    label: { label: input.label, ratio: input.ratio, thresholds: input.thresholds, drivers },
+  };
+}
+
+export function explainHeuristicEstimate(input: {
+  label: string;
+  ratio: number;
+  thresholds: DealThresholds;
+  asking: number;
+  currency: string;
+  marketValue: number;
+  fetched: number;
+  ranked: number;
+  usable: number;
+  excluded: CompExclusion[];
+  windowDays: number;
+  risk: { level: string; reasons: { detail: string }[] };
+}): EstimateExplanation {
+  const drivers: LabelDriver[] = [
+    ratioDriver(input.label, input.ratio, input.asking, input.marketValue, input.currency, input.thresholds),
+    {
+      driver: "sparse_sold_data",
+      impact: "info",
+      detail: `Only ${input.usable} usable sold comps in ${input.windowDays} days (4 needed); the value is derived from the asking price.`,
+    },
+  ];
+  if (input.risk.level !== "low") {
+    drivers.push({
+      driver: "risk",
+      impact: "info",
+      detail: `Authenticity risk ${input.risk.level}: ${input.risk.reasons.map((r) => r.detail).join(" ")}`,
+    });
+  }
+
+  return {
+    comps: {
+      included: [],
+      excluded: input.excluded.slice(0, EXCLUDED_SHOWN),
+      counts: { fetched: input.fetched, ranked: input.ranked, included: 0, excluded: input.excluded.length },
+    },
+    marketValue: { method: "heuristic", detail: "93% of the asking price." },
+    range: { method: "heuristic", detail: "84%-102% of the asking price." },
+    label: { label: input.label, ratio: input.ratio, thresholds: input.thresholds, drivers },
+  };
+}
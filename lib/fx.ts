@@ -0,0 +1,139 @@
+import type { Comp } from "./types";
+import { supabase } from "./supabase";
+import { upstreamError } from "./errors";
+
+/**
+ * ===== FX RATES =====
+ * Rates are quoted per 1 EUR (ECB reference rates). The latest row of `fx_rates`
+ * is used when present, otherwise the static table below (also used offline/tests).
+ */
+export type FxTable = {
+  base: "EUR";
+  asOf: string;
+  source: "supabase" | "static";
+  rates: Record<string, number>;
+};
+
+export const STATIC_FX_TABLE: FxTable = {
+  base: "EUR",
+  asOf: "2025-06-30",
+  source: "static",
+  rates: {
+    EUR: 1,
+    USD: 1.172,
+    GBP: 0.855,
+    CHF: 0.934,
+    JPY: 169.2,
+    CAD: 1.603,
+    AUD: 1.792,
+    NZD: 1.932,
+    SEK: 11.15,
+    NOK: 11.84,
+    DKK: 7.461,
+    PLN: 4.242,
+    CZK: 24.74,
+    HUF: 399.8,
+    HKD: 9.2,
+    SGD: 1.493,
+    CNY: 8.397,
+    KRW: 1593,
+    INR: 100.6,
+    MXN: 22.09,
+    MYR: 4.946,
+    PHP: 66.12,
+  },
+};
+
+const ECB_DAILY_URL = "https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml";
+const FX_MEMO_MS = 1000 * 60 * 60; // 1 hour
+
+let fxMemo: { table: FxTable; loadedAtMs: number } | null = null;
+
+export async function loadFxTable(): Promise<FxTable> {
+  if (fxMemo && fxMemo.loadedAtMs + FX_MEMO_MS > Date.now()) return fxMemo.table;
+
+  let table = STATIC_FX_TABLE;
+  try {
+    const { data, error } = await supabase
+      .from("fx_rates")
+      .select("as_of, rates")
+      .order("as_of", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (!error && data?.rates) {
+      table = { base: "EUR", asOf: data.as_of, source: "supabase", rates: { EUR: 1, ...data.rates } };
+    }
+  } catch {
+    table = STATIC_FX_TABLE;
+  }
+
+  fxMemo = { table, loadedAtMs: Date.now() };
+  return table;
+}
+
+/**
+ * Pulls the ECB daily reference rates and stores them as the newest fx_rates row.
+ */
+export async function refreshFxRates(): Promise<FxTable> {
+  const r = await fetch(ECB_DAILY_URL);
+  if (!r.ok) throw upstreamError("ECB rates", r.status);
+
+  const xml = await r.text();
+  const asOf = xml.match(/time=['"](\d{4}-\d{2}-\d{2})['"]/)?.[1];
+  const rates: Record<string, number> = { EUR: 1 };
+  for (const m of xml.matchAll(/currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]/g)) {
+    rates[m[1]] = Number(m[2]);
+  }
+  if (!asOf || Object.keys(rates).length < 2) throw upstreamError("ECB rates", null, "unexpected payload");
+
+  const { error } = await supabase.from("fx_rates").upsert({ as_of: asOf, base: "EUR", rates });
+  if (error) throw error;
+
+  const table: FxTable = { base: "EUR", asOf, source: "supabase", rates };
+  fxMemo = { table, loadedAtMs: Date.now() };
+  return table;
+}
+
+export function fxRate(table: FxTable, from: string, to: string): number | null {
+  const f = table.rates[(from || "").toUpperCase()];
+  const t = table.rates[(to || "").toUpperCase()];
+  if (!f || !t) return null;
+  return t / f;
+}
+
+/**
+ * Converts comps into `currency`; comps in an unknown currency are dropped.
+ * Converted comps keep their listed price in `originalPrice`.
+ */
+export function convertComps<T extends Comp>(
+  comps: T[],
+  currency: string,
+  table: FxTable
+): { comps: T[]; dropped: number; rates: Record<string, number> } {
+  const out: T[] = [];
+  const rates: Record<string, number> = {};
+  let dropped = 0;
+
+  for (const c of comps) {
+    const from = (c.price?.currency || currency).toUpperCase();
+    if (from === currency.toUpperCase()) {
+      out.push(c);
+      continue;
+    }
+
+    const rate = fxRate(table, from, currency);
+    if (rate == null) {
+      dropped++;
+      continue;
+    }
+
+    rates[from] = Number(rate.toFixed(6));
+    out.push({
+      ...c,
+      price: { amount: Number((c.price.amount * rate).toFixed(2)), currency: currency.toUpperCase() },
+      originalPrice: c.price,
+    });
+  }
+
+  return { comps: out, dropped, rates };
+}
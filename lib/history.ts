@@ -0,0 +1,97 @@
+import type { ListingAttributes } from "./attributes";
+import type { ConditionGrade } from "./condition";
+import { sizeKey } from "./categories";
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL, supabase } from "./supabase";
+import { normalize } from "./util";
+
+/**
+ * ===== PRICE HISTORY (price_history table) =====
+ * One row per computed sold-comps market value, keyed by model identity + marketplace.
+ * Market values are restated in the target's condition, so the grade is part of the identity;
+ * the category is too, since a brand + model name can exist in more than one.
+ */
+export type ModelIdentity = {
+  category: string;
+  brand: string;
+  model: string;
+  size: string;
+  material: string;
+  // ConditionGrade, "" when unknown
+  condition: string;
+};
+
+export function modelIdentity(
+  attrs: Pick<ListingAttributes, "category" | "brand" | "model" | "size" | "material"> & {
+    condition?: ConditionGrade | null;
+  }
+): ModelIdentity | null {
+  if (!attrs.brand || !attrs.model) return null;
+  return {
+    category: attrs.category,
+    brand: normalize(attrs.brand),
+    model: normalize(attrs.model),
+    size: normalize(sizeKey(attrs) || ""),
+    material: normalize(attrs.material || ""),
+    condition: attrs.condition || "",
+  };
+}
+
+export function modelKey(id: ModelIdentity): string {
+  return [id.category, id.brand, id.model, id.size, id.material, id.condition].join("|");
+}
+
+// skipped without Supabase (STORAGE_BACKEND=memory); the history route needs it anyway
+export async function recordPriceHistory(params: {
+  attributes: ListingAttributes;
+  condition: ConditionGrade | null;
+  marketplaceId: string;
+  source: string;
+  estimate: any;
+}) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return;
+  const identity = modelIdentity({ ...params.attributes, condition: params.condition });
+  if (!identity) return;
+
+  const e = params.estimate;
+  const { error } = await supabase.from("price_history").insert({
+    model_key: modelKey(identity),
+    ...identity,
+    marketplace_id: params.marketplaceId,
+    source: params.source,
+    currency: e.marketValue.currency,
+    market_value: e.marketValue.amount,
+    range_low: e.range?.low?.amount ?? null,
+    range_high: e.range?.high?.amount ?? null,
+    confidence: e.confidence,
+    method: e.method,
+  });
+  if (error) console.error("price_history write failed:", error.message);
+}
+
+export type PriceHistoryRow = {
+  recorded_at: string;
+  currency: string;
+  market_value: number;
+  range_low: number | null;
+  range_high: number | null;
+  confidence: string;
+};
+
+export async function fetchPriceHistory(params: {
+  identity: ModelIdentity;
+  marketplaceId?: string;
+  days: number;
+}): Promise<PriceHistoryRow[]> {
+  const since = new Date(Date.now() - params.days * 24 * 60 * 60 * 1000);
+
+  let q = supabase
+    .from("price_history")
+    .select("recorded_at, currency, market_value, range_low, range_high, confidence")
+    .eq("model_key", modelKey(params.identity))
+    .gte("recorded_at", since.toISOString());
+  if (params.marketplaceId) q = q.eq("marketplace_id", params.marketplaceId);
+
+  const { data, error } = await q.order("recorded_at", { ascending: true }).limit(5000);
+  if (error) throw error;
+  return (data || []) as PriceHistoryRow[];
+}
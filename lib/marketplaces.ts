@@ -0,0 +1,83 @@
+import { hostOf } from "./sources/types";
+import type { UpstreamError } from "./errors";
+
+/**
+ * ===== EBAY MARKETPLACE REGISTRY =====
+ * One row per eBay site: URL detection, Browse marketplace ID, Finding global ID,
+ * default currency and locale. Language sites (cafr.ebay.ca, benl.ebay.be) share
+ * their country's Browse ID and differ in locale + Finding global ID; the first
+ * row of an ID is the country's default.
+ */
+export type Marketplace = {
+  id: string;
+  domain: string;
+  globalId: string;
+  currency: string;
+  locale: string;
+};
+
+export const MARKETPLACES: Marketplace[] = [
+  { id: "EBAY_US", domain: "ebay.com", globalId: "EBAY-US", currency: "USD", locale: "en-US" },
+  { id: "EBAY_CA", domain: "ebay.ca", globalId: "EBAY-ENCA", currency: "CAD", locale: "en-CA" },
+  { id: "EBAY_GB", domain: "ebay.co.uk", globalId: "EBAY-GB", currency: "GBP", locale: "en-GB" },
+  { id: "EBAY_IE", domain: "ebay.ie", globalId: "EBAY-IE", currency: "EUR", locale: "en-IE" },
+  { id: "EBAY_AU", domain: "ebay.com.au", globalId: "EBAY-AU", currency: "AUD", locale: "en-AU" },
+  { id: "EBAY_DE", domain: "ebay.de", globalId: "EBAY-DE", currency: "EUR", locale: "de-DE" },
+  { id: "EBAY_AT", domain: "ebay.at", globalId: "EBAY-AT", currency: "EUR", locale: "de-AT" },
+  { id: "EBAY_CH", domain: "ebay.ch", globalId: "EBAY-CH", currency: "CHF", locale: "de-CH" },
+  { id: "EBAY_FR", domain: "ebay.fr", globalId: "EBAY-FR", currency: "EUR", locale: "fr-FR" },
+  { id: "EBAY_BE", domain: "ebay.be", globalId: "EBAY-FRBE", currency: "EUR", locale: "fr-BE" },
+  { id: "EBAY_NL", domain: "ebay.nl", globalId: "EBAY-NL", currency: "EUR", locale: "nl-NL" },
+  { id: "EBAY_IT", domain: "ebay.it", globalId: "EBAY-IT", currency: "EUR", locale: "it-IT" },
+  { id: "EBAY_ES", domain: "ebay.es", globalId: "EBAY-ES", currency: "EUR", locale: "es-ES" },
+  { id: "EBAY_PL", domain: "ebay.pl", globalId: "EBAY-PL", currency: "PLN", locale: "pl-PL" },
+  { id: "EBAY_HK", domain: "ebay.com.hk", globalId: "EBAY-HK", currency: "HKD", locale: "zh-HK" },
+  { id: "EBAY_SG", domain: "ebay.com.sg", globalId: "EBAY-SG", currency: "SGD", locale: "en-SG" },
+  { id: "EBAY_MY", domain: "ebay.com.my", globalId: "EBAY-MY", currency: "MYR", locale: "en-MY" },
+  { id: "EBAY_PH", domain: "ebay.ph", globalId: "EBAY-PH", currency: "PHP", locale: "en-PH" },
+  { id: "EBAY_CA", domain: "cafr.ebay.ca", globalId: "EBAY-FRCA", currency: "CAD", locale: "fr-CA" },
+  { id: "EBAY_BE", domain: "benl.ebay.be", globalId: "EBAY-NLBE", currency: "EUR", locale: "nl-BE" },
+];
+
+export const DEFAULT_MARKETPLACE_ID = "EBAY_US";
+
+export function marketplaceById(id: string): Marketplace | null {
+  return MARKETPLACES.find((m) => m.id === id) || null;
+}
+
+// the language site's row when the locale names one, else the country's
+function marketplaceRow(marketplaceId: string, locale?: string | null): Marketplace | null {
+  return (locale && MARKETPLACES.find((m) => m.id === marketplaceId && m.locale === locale)) || marketplaceById(marketplaceId);
+}
+
+/**
+ * www., m. (mobile) and language subdomains (cafr., befr., benl.) all resolve, the
+ * most specific domain winning; null for hosts that are not a known eBay site
+ * (e.g. ebay.us short links).
+ */
+export function marketplaceFromUrl(url: string): Marketplace | null {
+  const host = hostOf(url);
+  if (!host) return null;
+  const matches = MARKETPLACES.filter((m) => host === m.domain || host.endsWith(`.${m.domain}`));
+  return matches.sort((a, b) => b.domain.length - a.domain.length)[0] || null;
+}
+
+export function findingGlobalId(marketplaceId: string, locale?: string | null): string {
+  const m = marketplaceRow(marketplaceId, locale);
+  if (!m) {
+    const err = new Error(`Unknown eBay marketplace: ${marketplaceId}`) as UpstreamError;
+    err.code = "UNSUPPORTED_MARKETPLACE";
+    err.upstreamStatus = null;
+    throw err;
+  }
+  return m.globalId;
+}
+
+// cache key part: "EBAY_CA", or "EBAY_CA/fr-CA" for a language site
+export function siteKey(p: { marketplaceId: string; locale?: string }): string {
+  return p.locale ? `${p.marketplaceId}/${p.locale}` : p.marketplaceId;
+}
+
+export function marketplaceLocale(marketplaceId: string, locale?: string | null): string {
+  return marketplaceRow(marketplaceId, locale)?.locale || "en-US";
+}
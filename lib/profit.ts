@@ -0,0 +1,346 @@
+import type { AnalyzeRequest } from "./types";
+import type { Enrichment } from "./enrich";
+import type { FxTable } from "./fx";
+import { fxRate, loadFxTable } from "./fx";
+
+/**
+ * ===== FEE SCHEDULES =====
+ * Data only. Defaults approximate the published business-seller rates per
+ * category; anything a reseller pays differently goes in `fees` overrides.
+ * Categories without a schedule on a marketplace fall back to the EBAY_US one.
+ */
+export type FeeTier = { upTo: number | null; rate: number };
+
+export type FeeSchedule = {
+  id: string;
+  marketplaceId: string;
+  category: string;
+  currency: string;
+  // marginal tiers on the sale total
+  finalValue: FeeTier[];
+  perOrderFee: number;
+  paymentRate: number;
+  paymentFixed: number;
+  // outbound label + insurance estimate
+  shipping: number;
+  authentication: number;
+};
+
+// amounts in the asking currency; a flat finalValueRate replaces the tiers
+export type FeeOverrides = {
+  finalValueRate?: number;
+  perOrderFee?: number;
+  paymentRate?: number;
+  paymentFixed?: number;
+  shipping?: number;
+  authentication?: number;
+  inboundShipping?: number;
+};
+
+const FEE_OVERRIDE_KEYS: (keyof FeeOverrides)[] = [
+  "finalValueRate",
+  "perOrderFee",
+  "paymentRate",
+  "paymentFixed",
+  "shipping",
+  "authentication",
+  "inboundShipping",
+];
+
+export const FEE_SCHEDULES: FeeSchedule[] = [
+  {
+    id: "ebay-us-handbags",
+    marketplaceId: "EBAY_US",
+    category: "bags",
+    currency: "USD",
+    finalValue: [
+      { upTo: 2000, rate: 0.15 },
+      { upTo: null, rate: 0.09 },
+    ],
+    perOrderFee: 0.4,
+    // payment processing is folded into the final value fee
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 20,
+    // Authenticity Guarantee is free to sellers on eligible bags
+    authentication: 0,
+  },
+  {
+    id: "ebay-us-watches",
+    marketplaceId: "EBAY_US",
+    category: "watches",
+    currency: "USD",
+    finalValue: [
+      { upTo: 1000, rate: 0.15 },
+      { upTo: 7500, rate: 0.065 },
+      { upTo: null, rate: 0.03 },
+    ],
+    perOrderFee: 0.4,
+    paymentRate: 0,
+    paymentFixed: 0,
+    // insured overnight
+    shipping: 25,
+    authentication: 0,
+  },
+  {
+    id: "ebay-us-sneakers",
+    marketplaceId: "EBAY_US",
+    category: "sneakers",
+    currency: "USD",
+    // Authenticity Guarantee rate (pairs from $150, which is what we value)
+    finalValue: [{ upTo: null, rate: 0.08 }],
+    perOrderFee: 0,
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 15,
+    authentication: 0,
+  },
+  {
+    id: "ebay-us-jewelry",
+    marketplaceId: "EBAY_US",
+    category: "jewelry",
+    currency: "USD",
+    finalValue: [
+      { upTo: 5000, rate: 0.15 },
+      { upTo: null, rate: 0.09 },
+    ],
+    perOrderFee: 0.4,
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 15,
+    authentication: 0,
+  },
+  {
+    id: "ebay-ca-handbags",
+    marketplaceId: "EBAY_CA",
+    category: "bags",
+    currency: "CAD",
+    finalValue: [
+      { upTo: 2500, rate: 0.1335 },
+      { upTo: null, rate: 0.0235 },
+    ],
+    perOrderFee: 0.4,
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 25,
+    authentication: 0,
+  },
+  {
+    id: "ebay-gb-handbags",
+    marketplaceId: "EBAY_GB",
+    category: "bags",
+    currency: "GBP",
+    finalValue: [{ upTo: null, rate: 0.129 }],
+    perOrderFee: 0.3,
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 12,
+    authentication: 0,
+  },
+  {
+    id: "ebay-de-handbags",
+    marketplaceId: "EBAY_DE",
+    category: "bags",
+    currency: "EUR",
+    finalValue: [
+      { upTo: 990, rate: 0.11 },
+      { upTo: null, rate: 0.02 },
+    ],
+    perOrderFee: 0.35,
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 10,
+    authentication: 0,
+  },
+  {
+    id: "ebay-fr-handbags",
+    marketplaceId: "EBAY_FR",
+    category: "bags",
+    currency: "EUR",
+    finalValue: [
+      { upTo: 2000, rate: 0.12 },
+      { upTo: null, rate: 0.03 },
+    ],
+    perOrderFee: 0.35,
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 10,
+    authentication: 0,
+  },
+  {
+    id: "ebay-it-handbags",
+    marketplaceId: "EBAY_IT",
+    category: "bags",
+    currency: "EUR",
+    finalValue: [
+      { upTo: 2000, rate: 0.115 },
+      { upTo: null, rate: 0.03 },
+    ],
+    perOrderFee: 0.35,
+    paymentRate: 0,
+    paymentFixed: 0,
+    shipping: 10,
+    authentication: 0,
+  },
+];
+
+export function feeScheduleFor(marketplaceId: string, category = "bags"): FeeSchedule {
+  return (
+    FEE_SCHEDULES.find((s) => s.marketplaceId === marketplaceId && s.category === category) ||
+    FEE_SCHEDULES.find((s) => s.marketplaceId === "EBAY_US" && s.category === category) ||
+    FEE_SCHEDULES[0]
+  );
+}
+
+export function validateFeeOverrides(fees: any): string | null {
+  if (fees == null) return null;
+  if (typeof fees !== "object" || Array.isArray(fees)) return "fees must be an object";
+  for (const [k, v] of Object.entries(fees)) {
+    if (!FEE_OVERRIDE_KEYS.includes(k as keyof FeeOverrides)) return `Unknown fee override: ${k}`;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0) return `Invalid fee override: ${k}`;
+    if (k.endsWith("Rate") && v >= 1) return `Invalid fee override: ${k} (rates are fractions, e.g. 0.13)`;
+  }
+  return null;
+}
+
+/**
+ * ===== NET FLIP PROFIT =====
+ */
+function tieredFee(amount: number, tiers: FeeTier[]): number {
+  let fee = 0;
+  let from = 0;
+  for (const t of tiers) {
+    const to = t.upTo ?? Infinity;
+    if (amount > from) fee += (Math.min(amount, to) - from) * t.rate;
+    from = to;
+  }
+  return fee;
+}
+
+type ResolvedFees = {
+  finalValue: FeeTier[];
+  perOrderFee: number;
+  paymentRate: number;
+  paymentFixed: number;
+  shipping: number;
+  authentication: number;
+};
+
+function sellingFees(resale: number, f: ResolvedFees) {
+  const finalValue = tieredFee(resale, f.finalValue);
+  const payment = resale * f.paymentRate + f.paymentFixed;
+  const total = finalValue + f.perOrderFee + payment + f.shipping + f.authentication;
+  return { finalValue, perOrder: f.perOrderFee, payment, shipping: f.shipping, authentication: f.authentication, total };
+}
+
+// resale price where the flip nets zero (fees are monotonic in the sale price)
+function breakEven(cost: number, f: ResolvedFees): number {
+  let lo = 0;
+  let hi = Math.max(cost * 4, 100);
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (mid - sellingFees(mid, f).total >= cost) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function computeProfit(input: {
+  asking: { amount: number; currency: string };
+  resale: number | null;
+  resaleBasis: string | null;
+  marketplaceId: string;
+  category?: string;
+  overrides?: FeeOverrides;
+  inboundShipping?: number;
+  // currency pairs the caller could not convert (e.g. the listing's shipping)
+  missingFxRates?: { from: string; to: string }[];
+  fxTable: FxTable;
+}) {
+  const { asking, resale, overrides = {} } = input;
+  const schedule = feeScheduleFor(input.marketplaceId, input.category);
+  const missingFxRates = [...(input.missingFxRates || [])];
+
+  // schedule amounts are in the marketplace currency; without a rate no fee can be stated
+  const rate = fxRate(input.fxTable, schedule.currency, asking.currency);
+  if (rate == null) missingFxRates.push({ from: schedule.currency, to: asking.currency });
+  const local = (n: number) => n * (rate ?? NaN);
+
+  const fees: ResolvedFees = {
+    finalValue:
+      overrides.finalValueRate != null
+        ? [{ upTo: null, rate: overrides.finalValueRate }]
+        : schedule.finalValue.map((t) => ({ upTo: t.upTo != null ? local(t.upTo) : null, rate: t.rate })),
+    perOrderFee: overrides.perOrderFee ?? local(schedule.perOrderFee),
+    paymentRate: overrides.paymentRate ?? schedule.paymentRate,
+    paymentFixed: overrides.paymentFixed ?? local(schedule.paymentFixed),
+    shipping: overrides.shipping ?? local(schedule.shipping),
+    authentication: overrides.authentication ?? local(schedule.authentication),
+  };
+
+  const inboundShipping = overrides.inboundShipping ?? input.inboundShipping ?? 0;
+  const cost = asking.amount + inboundShipping;
+  const money = (n: number | null) => (n == null ? null : { amount: round2(n), currency: asking.currency });
+
+  const sale = resale != null && resale > 0 && rate != null ? sellingFees(resale, fees) : null;
+  const netProfit = sale ? resale - sale.total - cost : null;
+
+  return {
+    resalePrice: money(resale),
+    resaleBasis: input.resaleBasis,
+    purchaseCost: { price: money(asking.amount), shipping: money(inboundShipping), total: money(cost) },
+    fees: sale
+      ? {
+          finalValue: money(sale.finalValue),
+          perOrder: money(sale.perOrder),
+          payment: money(sale.payment),
+          shipping: money(sale.shipping),
+          authentication: money(sale.authentication),
+          total: money(sale.total),
+        }
+      : null,
+    netProfit: money(netProfit),
+    marginPct: netProfit != null ? Number(((netProfit / resale) * 100).toFixed(1)) : null,
+    roiPct: netProfit != null && cost > 0 ? Number(((netProfit / cost) * 100).toFixed(1)) : null,
+    breakEvenResalePrice: money(rate != null ? breakEven(cost, fees) : null),
+    schedule: { id: schedule.id, marketplaceId: schedule.marketplaceId, category: schedule.category },
+    // fees / profit are null when a needed rate is missing; inbound shipping is then left out
+    missingFxRates,
+    overrides: Object.keys(overrides).filter((k) => FEE_OVERRIDE_KEYS.includes(k as keyof FeeOverrides)),
+  };
+}
+
+/**
+ * Profit for a finished valuation; computed per request since fee overrides
+ * are not part of the cache key. A heuristic market value is a fraction of the
+ * asking price, so it is no resale basis: without active comps profit is null.
+ */
+export async function profitForValuation(data: any, body: AnalyzeRequest, enrichment: Enrichment | null) {
+  const fxTable = await loadFxTable();
+
+  const potential = data?.resale?.potentialValue?.amount;
+  const soldBased = String(data?.estimate?.method || "").startsWith("sold-comps");
+  const market = soldBased ? data?.estimate?.marketValue?.amount : null;
+  const resale = Number.isFinite(potential) ? potential : Number.isFinite(market) ? market : null;
+  const resaleBasis = Number.isFinite(potential) ? "active-comps-median" : Number.isFinite(market) ? "sold-market-value" : null;
+
+  // listing's own shipping, converted into the asking currency
+  const ship = enrichment?.listing?.shipping;
+  const shipRate = ship ? fxRate(fxTable, ship.currency, body.price.currency) : null;
+  const inboundShipping = ship && shipRate != null ? ship.amount * shipRate : undefined;
+  const missingFxRates = ship && shipRate == null ? [{ from: ship.currency, to: body.price.currency }] : [];
+
+  return computeProfit({
+    asking: body.price,
+    resale,
+    resaleBasis,
+    marketplaceId: data?.meta?.marketplaceId || "EBAY_US",
+    category: data?.meta?.category || "bags",
+    overrides: body.fees,
+    inboundShipping,
+    missingFxRates,
+    fxTable,
+  });
+}
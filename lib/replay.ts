@@ -0,0 +1,105 @@
+import fs from "fs";
+import path from "path";
+import type { UpstreamService } from "./budget";
+import { upstreamError } from "./errors";
+import { sha256 } from "./util";
+
+/**
+ * ===== EBAY RECORD / REPLAY =====
+ * EBAY_FIXTURES=record|replay, EBAY_FIXTURES_DIR=<dir> (default fixtures/ebay).
+ * record: real calls, every OK response also saved to <dir>; replay: answered
+ * from <dir> only (no network, no budget). Used by scripts/backtest.ts.
+ *
+ * Keys leave out credentials and turn time ranges into their length, so a
+ * recording matches on any later day. Tokens are never written.
+ */
+export type FixtureMode = "off" | "record" | "replay";
+
+export type EbayFixture = {
+  key: string;
+  service: UpstreamService;
+  // the canonical request the key was built from
+  request: string;
+  recordedAt: string;
+  status: number;
+  body: string;
+};
+
+const DROPPED_PARAMS = ["SECURITY-APPNAME"];
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// read per call: the backtest script picks the mode at runtime
+export function fixtureMode(): FixtureMode {
+  const mode = (process.env.EBAY_FIXTURES || "").toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+export function fixturesDir(): string {
+  return process.env.EBAY_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "ebay");
+}
+
+function headerValue(init: RequestInit, name: string): string {
+  const h = (init.headers || {}) as Record<string, string>;
+  const hit = Object.keys(h).find((k) => k.toLowerCase() === name.toLowerCase());
+  return hit ? h[hit] : "";
+}
+
+// "from..to" timestamps (Finding EndTimeFrom/To, Insights lastSoldDate) -> "<n>d"
+function canonicalRequest(service: UpstreamService, url: string, init: RequestInit): string {
+  const u = new URL(url);
+  for (const p of DROPPED_PARAMS) u.searchParams.delete(p);
+  u.searchParams.sort();
+
+  let canonical = decodeURIComponent(u.toString());
+  const stamps = canonical.match(ISO_TIMESTAMP) || [];
+  if (stamps.length === 2) {
+    const days = Math.round((Date.parse(stamps[1]) - Date.parse(stamps[0])) / DAY_MS);
+    canonical = canonical.replace(stamps[0], `-${days}d`).replace(stamps[1], "now");
+  }
+
+  const marketplace = headerValue(init, "X-EBAY-C-MARKETPLACE-ID");
+  return [service, (init.method || "GET").toUpperCase(), canonical, marketplace].filter(Boolean).join(" ");
+}
+
+function fixturePath(service: UpstreamService, key: string): string {
+  return path.join(fixturesDir(), `${service}-${key}.json`);
+}
+
+export async function replayEbayCall(
+  service: UpstreamService,
+  label: string,
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  if (service === "token") {
+    return new Response(JSON.stringify({ access_token: "replay", expires_in: 7200 }), { status: 200 });
+  }
+
+  const request = canonicalRequest(service, url, init);
+  const key = sha256(request).slice(0, 24);
+  const file = fixturePath(service, key);
+  if (!fs.existsSync(file)) throw upstreamError(label, null, `no recorded fixture for ${request}`);
+
+  const fixture = JSON.parse(fs.readFileSync(file, "utf8")) as EbayFixture;
+  return new Response(fixture.body, { status: fixture.status, headers: { "Content-Type": "application/json" } });
+}
+
+// consumes the response body, so returns a fresh Response for the caller
+export async function recordEbayCall(
+  service: UpstreamService,
+  url: string,
+  init: RequestInit,
+  r: Response
+): Promise<Response> {
+  if (service === "token") return r;
+
+  const body = await r.text();
+  const request = canonicalRequest(service, url, init);
+  const key = sha256(request).slice(0, 24);
+  const fixture: EbayFixture = { key, service, request, recordedAt: new Date().toISOString(), status: r.status, body };
+
+  fs.mkdirSync(fixturesDir(), { recursive: true });
+  fs.writeFileSync(fixturePath(service, key), JSON.stringify(fixture, null, 2));
+  return new Response(body, { status: r.status, headers: r.headers });
+}
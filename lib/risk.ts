@@ -0,0 +1,106 @@
+import type { AnalyzeRequest } from "./types";
+import type { ListingAttributes } from "./attributes";
+import { foreignModelMentions, modelHasSizes } from "./attributes";
+import { categoryOf } from "./categories";
+import type { EbayItemDetails } from "./ebay";
+import { normalize } from "./util";
+
+/**
+ * ===== AUTHENTICITY / REPLICA RISK =====
+ * Additive points per signal; the UI should show the warning before "Great deal".
+ */
+export type RiskLevel = "low" | "medium" | "high";
+
+export type RiskReason = { code: string; points: number; detail: string };
+
+export type RiskAssessment = {
+  level: RiskLevel;
+  score: number;
+  reasons: RiskReason[];
+};
+
+const RISK_HIGH = 50;
+const RISK_MEDIUM = 25;
+
+// sellers rarely use these for genuine items
+const REPLICA_PHRASES = [
+  "replica",
+  "inspired",
+  "dupe",
+  "mirror quality",
+  "mirror copy",
+  "1:1",
+  "aaa",
+  "super fake",
+  "unbranded",
+  "not authentic",
+  "look alike",
+  "lookalike",
+];
+
+// vague but common on counterfeits
+const HEDGE_PHRASES = ["style", "type", "similar to", "vip gift", "no receipt", "unauthenticated"];
+
+export type SellerSignals = EbayItemDetails["seller"];
+
+export function assessRisk(input: {
+  body: AnalyzeRequest;
+  attrs: ListingAttributes;
+  // sold median in the asking currency; null when sold comps were too thin
+  soldMedian: number | null;
+  seller?: SellerSignals | null;
+}): RiskAssessment {
+  const { body, attrs, soldMedian, seller } = input;
+  const catalog = categoryOf(attrs).catalog;
+  const reasons: RiskReason[] = [];
+  const padded = ` ${normalize(body.title || "")} `;
+
+  if (soldMedian != null && soldMedian > 0) {
+    const ratio = body.price.amount / soldMedian;
+    const pct = Math.round(ratio * 100);
+    if (ratio <= 0.5) {
+      reasons.push({ code: "PRICE_FAR_BELOW_MARKET", points: 45, detail: `Asking is ${pct}% of the sold median.` });
+    } else if (ratio <= 0.65) {
+      reasons.push({ code: "PRICE_WELL_BELOW_MARKET", points: 25, detail: `Asking is ${pct}% of the sold median.` });
+    }
+  }
+
+  const replica = REPLICA_PHRASES.filter((p) => padded.includes(` ${normalize(p)} `));
+  if (replica.length) {
+    reasons.push({ code: "REPLICA_PHRASING", points: 60, detail: `Title mentions: ${replica.join(", ")}.` });
+  }
+  const hedges = HEDGE_PHRASES.filter((p) => padded.includes(` ${normalize(p)} `));
+  if (hedges.length) {
+    reasons.push({ code: "HEDGED_PHRASING", points: 15, detail: `Title hedges with: ${hedges.join(", ")}.` });
+  }
+
+  if (attrs.brand && !attrs.model) {
+    reasons.push({ code: "MODEL_MISSING", points: 10, detail: `No known ${attrs.brand} model in the title.` });
+  } else if (attrs.model && modelHasSizes(attrs, catalog) && !attrs.size.label && attrs.size.value == null) {
+    reasons.push({ code: "SIZE_MISSING", points: 5, detail: `${attrs.model} comes in several sizes; none given.` });
+  }
+
+  const foreign = foreignModelMentions(body.title || "", attrs, catalog);
+  if (foreign.length) {
+    const names = foreign.map((f) => `${f.brand} ${f.model}`).join(", ");
+    reasons.push({ code: "BRAND_MODEL_MISMATCH", points: 30, detail: `${attrs.brand} listing names ${names}.` });
+  }
+
+  if (seller) {
+    if (seller.feedbackScore != null && seller.feedbackScore < 10) {
+      reasons.push({ code: "SELLER_NEW", points: 15, detail: `Seller has ${seller.feedbackScore} feedback.` });
+    }
+    if (seller.feedbackPercentage != null && seller.feedbackPercentage < 97) {
+      reasons.push({
+        code: "SELLER_LOW_FEEDBACK",
+        points: 10,
+        detail: `Seller feedback is ${seller.feedbackPercentage}% positive.`,
+      });
+    }
+  }
+
+  const score = Math.min(reasons.reduce((s, r) => s + r.points, 0), 100);
+  const level: RiskLevel = score >= RISK_HIGH ? "high" : score >= RISK_MEDIUM ? "medium" : "low";
+
+  return { level, score, reasons };
+}
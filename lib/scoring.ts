@@ -0,0 +1,366 @@
+import type { CategoryId, RankingWeights } from "./categories";
+import { categoryOf, supportedCategoryIds } from "./categories";
+import { supabase } from "./supabase";
+import { normalize, sha256 } from "./util";
+
+/**
+ * ===== SCORING CONFIG =====
+ * Versioned tuning values for comp ranking, deal labels and deal scores.
+ * The live row of `scoring_configs` (plus at most one experiment) is used when
+ * present, otherwise the bundled config below (also used offline/tests).
+ */
+export type DealThresholds = { great_deal: number; fair_price: number };
+
+// first step whose upTo >= asking/market ratio; upTo null = everything above
+export type DealScoreStep = { upTo: number | null; score: number };
+
+// from an asking price of minAsking, comps outside minRatio-maxRatio x asking are dropped
+export type PriceGuard = { minAsking: number; minRatio: number; maxRatio: number };
+
+export type ScoringValues = {
+  // unset factors keep the category plugin's weights
+  weights: Partial<RankingWeights>;
+  // comps under this match score are dropped
+  minMatchScore: number;
+  priceGuard: PriceGuard;
+  // sold strategy: a comp at or above qualityScore counts toward minQualitySold
+  qualityScore: number;
+  minQualitySold: number;
+  dealThresholds: DealThresholds;
+  dealScore: { sold: DealScoreStep[]; heuristic: DealScoreStep[] };
+};
+
+export type ScoringPatch = {
+  weights?: Partial<RankingWeights>;
+  minMatchScore?: number;
+  priceGuard?: Partial<PriceGuard>;
+  qualityScore?: number;
+  minQualitySold?: number;
+  dealThresholds?: Partial<DealThresholds>;
+  dealScore?: Partial<ScoringValues["dealScore"]>;
+};
+
+// every key given must match; brand compares normalized
+export type ScoringOverride = {
+  match: { category?: CategoryId; brand?: string; marketplaceId?: string };
+  values: ScoringPatch;
+};
+
+export type ScoringConfig = {
+  version: string;
+  defaults: ScoringValues;
+  overrides: ScoringOverride[];
+};
+
+export type ScoringVariant = "control" | "experiment";
+
+export type ScoringAssignment = { config: ScoringConfig; variant: ScoringVariant };
+
+export const BUNDLED_SCORING_CONFIG: ScoringConfig = {
+  version: "bundled-2026-10-19",
+  defaults: {
+    weights: {},
+    minMatchScore: 45,
+    priceGuard: { minAsking: 300, minRatio: 0.25, maxRatio: 3 },
+    qualityScore: 60,
+    minQualitySold: 8,
+    dealThresholds: { great_deal: 0.88, fair_price: 1.05 },
+    dealScore: {
+      sold: [
+        { upTo: 0.85, score: 88 },
+        { upTo: 0.95, score: 80 },
+        { upTo: 1.05, score: 68 },
+        { upTo: 1.15, score: 58 },
+        { upTo: null, score: 48 },
+      ],
+      heuristic: [
+        { upTo: 0.95, score: 74 },
+        { upTo: 1.05, score: 62 },
+        { upTo: null, score: 54 },
+      ],
+    },
+  },
+  overrides: [],
+};
+
+export const BUNDLED_ASSIGNMENT: ScoringAssignment = { config: BUNDLED_SCORING_CONFIG, variant: "control" };
+
+function applyPatch(base: ScoringValues, patch: ScoringPatch): ScoringValues {
+  return {
+    weights: { ...base.weights, ...(patch.weights || {}) },
+    minMatchScore: patch.minMatchScore ?? base.minMatchScore,
+    priceGuard: { ...base.priceGuard, ...(patch.priceGuard || {}) },
+    qualityScore: patch.qualityScore ?? base.qualityScore,
+    minQualitySold: patch.minQualitySold ?? base.minQualitySold,
+    dealThresholds: { ...base.dealThresholds, ...(patch.dealThresholds || {}) },
+    dealScore: { ...base.dealScore, ...(patch.dealScore || {}) },
+  };
+}
+
+/**
+ * ===== VALIDATION =====
+ * Rows are hand-edited JSON; a typo must not reach every analysis. Each problem is
+ * reported with its path, e.g. "overrides[2].values.minMatchScore: must be 0-100".
+ */
+const isObject = (v: unknown) => !!v && typeof v === "object" && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function stepsProblems(steps: unknown, at: string): string[] {
+  if (!Array.isArray(steps) || !steps.length) return [`${at}: must be a non-empty array of steps`];
+  const problems: string[] = [];
+  let previous = -Infinity;
+  steps.forEach((s: any, i) => {
+    const step = `${at}[${i}]`;
+    if (!isObject(s)) return problems.push(`${step}: must be an object`);
+    if (!isNumber(s.score) || s.score < 0 || s.score > 100) problems.push(`${step}.score: must be 0-100`);
+    if (s.upTo === null) {
+      if (i !== steps.length - 1) problems.push(`${step}.upTo: only the last step may be null`);
+    } else if (!isNumber(s.upTo) || s.upTo <= previous || s.upTo <= 0) {
+      problems.push(`${step}.upTo: must be a positive ratio above the previous step's, or null`);
+    } else {
+      previous = s.upTo;
+    }
+  });
+  return problems;
+}
+
+function patchProblems(patch: any, at: string): string[] {
+  if (!isObject(patch)) return [`${at}: must be an object`];
+  const problems: string[] = [];
+
+  if (patch.weights !== undefined) {
+    const known = Object.keys(categoryOf({}).weights);
+    if (!isObject(patch.weights)) {
+      problems.push(`${at}.weights: must be an object`);
+    } else {
+      for (const [k, v] of Object.entries(patch.weights)) {
+        if (!known.includes(k)) problems.push(`${at}.weights.${k}: unknown factor`);
+        else if (!isNumber(v)) problems.push(`${at}.weights.${k}: must be a number`);
+      }
+    }
+  }
+  for (const k of ["minMatchScore", "qualityScore"] as const) {
+    if (patch[k] !== undefined && (!isNumber(patch[k]) || patch[k] < 0 || patch[k] > 100)) {
+      problems.push(`${at}.${k}: must be 0-100`);
+    }
+  }
+  if (patch.priceGuard !== undefined) {
+    if (!isObject(patch.priceGuard)) {
+      problems.push(`${at}.priceGuard: must be an object`);
+    } else {
+      const v = patch.priceGuard.minAsking;
+      if (v !== undefined && (!isNumber(v) || v < 0)) problems.push(`${at}.priceGuard.minAsking: must be 0 or more`);
+      for (const k of ["minRatio", "maxRatio"] as const) {
+        const r = patch.priceGuard[k];
+        if (r !== undefined && (!isNumber(r) || r <= 0)) problems.push(`${at}.priceGuard.${k}: must be a positive ratio`);
+      }
+    }
+  }
+  if (patch.minQualitySold !== undefined && (!Number.isInteger(patch.minQualitySold) || patch.minQualitySold < 1)) {
+    problems.push(`${at}.minQualitySold: must be a positive integer`);
+  }
+  if (patch.dealThresholds !== undefined) {
+    if (!isObject(patch.dealThresholds)) {
+      problems.push(`${at}.dealThresholds: must be an object`);
+    } else {
+      for (const k of ["great_deal", "fair_price"] as const) {
+        const v = patch.dealThresholds[k];
+        if (v !== undefined && (!isNumber(v) || v <= 0)) problems.push(`${at}.dealThresholds.${k}: must be a positive ratio`);
+      }
+    }
+  }
+  if (patch.dealScore !== undefined) {
+    if (!isObject(patch.dealScore)) {
+      problems.push(`${at}.dealScore: must be an object`);
+    } else {
+      for (const k of ["sold", "heuristic"] as const) {
+        if (patch.dealScore[k] !== undefined) problems.push(...stepsProblems(patch.dealScore[k], `${at}.dealScore.${k}`));
+      }
+    }
+  }
+  return problems;
+}
+
+// checks that need the merged values: a patch may change one side of a pair
+function mergedProblems(values: ScoringValues, at: string): string[] {
+  const problems: string[] = [];
+  if (values.dealThresholds.great_deal >= values.dealThresholds.fair_price) {
+    problems.push(`${at}.dealThresholds: great_deal must be below fair_price`);
+  }
+  if (values.priceGuard.minRatio >= values.priceGuard.maxRatio) {
+    problems.push(`${at}.priceGuard: minRatio must be below maxRatio`);
+  }
+  return problems;
+}
+
+function overrideProblems(o: any, at: string): string[] {
+  if (!isObject(o)) return [`${at}: must be an object`];
+  const problems: string[] = [];
+  const m = o.match;
+  if (!isObject(m)) {
+    problems.push(`${at}.match: must be an object`);
+  } else {
+    if (m.category !== undefined && !supportedCategoryIds().includes(m.category)) {
+      problems.push(`${at}.match.category: unknown category`);
+    }
+    for (const k of ["brand", "marketplaceId"]) {
+      if (m[k] !== undefined && (typeof m[k] !== "string" || !m[k].trim())) {
+        problems.push(`${at}.match.${k}: must be a non-empty string`);
+      }
+    }
+  }
+  return [...problems, ...patchProblems(o.values, `${at}.values`)];
+}
+
+export function scoringConfigProblems(raw: any): string[] {
+  if (!isObject(raw)) return ["config: must be an object"];
+  const problems = raw.defaults !== undefined ? patchProblems(raw.defaults, "defaults") : [];
+  if (raw.overrides !== undefined) {
+    if (!Array.isArray(raw.overrides)) problems.push("overrides: must be an array");
+    else raw.overrides.forEach((o: any, i: number) => problems.push(...overrideProblems(o, `overrides[${i}]`)));
+  }
+  if (problems.length) return problems;
+
+  // defaults, then each override on top of them
+  const defaults = applyPatch(BUNDLED_SCORING_CONFIG.defaults, raw.defaults || {});
+  problems.push(...mergedProblems(defaults, "defaults"));
+  (raw.overrides || []).forEach((o: ScoringOverride, i: number) =>
+    problems.push(...mergedProblems(applyPatch(defaults, o.values || {}), `overrides[${i}].values`))
+  );
+  return problems;
+}
+
+// rows / candidate files only need what they change; the rest comes from the bundled defaults.
+// Throws when the JSON fails validation.
+export function scoringConfigFromJson(version: string, raw: any): ScoringConfig {
+  const problems = scoringConfigProblems(raw);
+  if (problems.length) throw new Error(`scoring config ${version} is invalid: ${problems.join("; ")}`);
+  return {
+    version,
+    defaults: applyPatch(BUNDLED_SCORING_CONFIG.defaults, raw.defaults || {}),
+    overrides: raw.overrides || [],
+  };
+}
+
+/**
+ * ===== LOADING + A/B ASSIGNMENT =====
+ */
+const SCORING_MEMO_MS = 1000 * 60 * 5; // 5 minutes
+
+type LoadedConfigs = { live: ScoringConfig; experiment: { config: ScoringConfig; traffic: number } | null };
+
+let scoringMemo: { configs: LoadedConfigs; loadedAtMs: number } | null = null;
+
+// null (logged) for a row that fails validation; callers fall back to the bundled config
+function configFromRow(row: { version: string; config: any }): ScoringConfig | null {
+  try {
+    return scoringConfigFromJson(row.version, row.config);
+  } catch (e: any) {
+    console.error(`scoring_configs row dropped: ${e.message}`);
+    return null;
+  }
+}
+
+export async function loadScoringConfigs(): Promise<LoadedConfigs> {
+  if (scoringMemo && scoringMemo.loadedAtMs + SCORING_MEMO_MS > Date.now()) return scoringMemo.configs;
+
+  let configs: LoadedConfigs = { live: BUNDLED_SCORING_CONFIG, experiment: null };
+  try {
+    const { data, error } = await supabase
+      .from("scoring_configs")
+      .select("version, config, role, traffic")
+      .in("role", ["live", "experiment"])
+      .order("created_at", { ascending: false });
+    if (!error && data) {
+      const liveRow = data.find((r: any) => r.role === "live");
+      const experimentRow = data.find((r: any) => r.role === "experiment" && Number(r.traffic) > 0);
+      const live = liveRow ? configFromRow(liveRow) : null;
+      const experiment = experimentRow ? configFromRow(experimentRow) : null;
+      configs = {
+        live: live || BUNDLED_SCORING_CONFIG,
+        experiment: experiment ? { config: experiment, traffic: Math.min(Number(experimentRow.traffic), 1) } : null,
+      };
+    }
+  } catch {
+    configs = { live: BUNDLED_SCORING_CONFIG, experiment: null };
+  }
+
+  scoringMemo = { configs, loadedAtMs: Date.now() };
+  return configs;
+}
+
+// stable per (device, experiment): a device stays in its arm until the experiment changes
+function experimentBucket(deviceId: string, version: string): number {
+  return parseInt(sha256(`${version}:${deviceId}`).slice(0, 8), 16) / 0x100000000;
+}
+
+export async function assignScoringConfig(deviceId: string | null | undefined): Promise<ScoringAssignment> {
+  const { live, experiment } = await loadScoringConfigs();
+  if (experiment && deviceId && experimentBucket(deviceId, experiment.config.version) < experiment.traffic) {
+    return { config: experiment.config, variant: "experiment" };
+  }
+  return { config: live, variant: "control" };
+}
+
+/**
+ * ===== RESOLUTION =====
+ * Defaults, then matching overrides from least to most specific (ties keep
+ * config order), then category weights for anything still unset. Overrides are
+ * validated one at a time on load; one that contradicts an earlier matching
+ * override (e.g. great_deal above the other's fair_price) is skipped.
+ */
+export type ResolvedScoring = Omit<ScoringValues, "weights"> & {
+  weights: RankingWeights;
+  version: string;
+  variant: ScoringVariant;
+  // which overrides applied, e.g. "category=watches,brand=rolex"
+  applied: string[];
+};
+
+export function resolveScoring(
+  assignment: ScoringAssignment,
+  target: { category: CategoryId; brand: string | null; marketplaceId: string },
+  categoryWeights: RankingWeights
+): ResolvedScoring {
+  const brand = normalize(target.brand || "");
+  const matching = assignment.config.overrides
+    .map((o, i) => ({ o, i, keys: Object.keys(o.match || {}).length }))
+    .filter(({ o }) => {
+      const m = o.match || {};
+      if (m.category && m.category !== target.category) return false;
+      if (m.marketplaceId && m.marketplaceId.toUpperCase() !== target.marketplaceId) return false;
+      if (m.brand && normalize(m.brand) !== brand) return false;
+      return true;
+    })
+    .sort((a, b) => a.keys - b.keys || a.i - b.i);
+
+  let values = assignment.config.defaults;
+  const applied: string[] = [];
+  for (const { o, i } of matching) {
+    const next = applyPatch(values, o.values || {});
+    const problems = mergedProblems(next, `overrides[${i}].values`);
+    if (problems.length) {
+      console.error(`scoring ${assignment.config.version}: override skipped: ${problems.join("; ")}`);
+      continue;
+    }
+    values = next;
+    applied.push(
+      Object.entries(o.match || {})
+        .map(([k, v]) => `${k}=${v}`)
+        .join(",")
+    );
+  }
+
+  return {
+    ...values,
+    weights: { ...categoryWeights, ...values.weights },
+    version: assignment.config.version,
+    variant: assignment.variant,
+    applied,
+  };
+}
+
+export function dealScoreFromRatio(steps: DealScoreStep[], ratio: number): number {
+  const step = steps.find((s) => s.upTo == null || ratio <= s.upTo) || steps[steps.length - 1];
+  return step.score;
+}
@@ -0,0 +1,9 @@
+import type { SoldProvider } from "./types";
+import { fetchFindingSoldComps } from "../ebay";
+
+// Legacy Finding API findCompletedItems (AppID only)
+export const findingSoldProvider: SoldProvider = {
+  id: "finding",
+  remote: true,
+  fetchSold: (params) => fetchFindingSoldComps(params),
+};
@@ -0,0 +1,78 @@
+import type { SoldCompsParams } from "../sources/types";
+import type { SoldFetchResult, SoldProvider, SoldProviderAttempt } from "./types";
+import { errorCodeOf } from "../errors";
+import { isBudgetRefusal } from "../budget";
+import { findingSoldProvider } from "./finding";
+import { insightsSoldProvider } from "./insights";
+import { recordSoldHistory, storedSoldProvider } from "./stored";
+import { fixtureSoldProvider } from "./stub";
+import { fixtureMode } from "../replay";
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from "../supabase";
+
+export type { SoldFetchResult, SoldProvider, SoldProviderAttempt } from "./types";
+export { createStubSoldProvider } from "./stub";
+
+/**
+ * ===== PROVIDER REGISTRY =====
+ */
+const PROVIDERS: SoldProvider[] = [
+  findingSoldProvider,
+  insightsSoldProvider,
+  storedSoldProvider,
+  fixtureSoldProvider,
+];
+
+// SOLD_PROVIDERS: comma-separated priority order, e.g. "insights,finding,stored"
+const DEFAULT_ORDER = "finding,insights,stored";
+
+// "stored" reads Supabase; without it (STORAGE_BACKEND=memory) it would only ever fail
+export function soldProvidersFromEnv(): SoldProvider[] {
+  const hasDatabase = !!SUPABASE_URL && !!SUPABASE_SERVICE_ROLE_KEY;
+  const order = (process.env.SOLD_PROVIDERS || DEFAULT_ORDER)
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((id) => id && (id !== "stored" || hasDatabase));
+  return order
+    .map((id) => PROVIDERS.find((p) => p.id === id))
+    .filter(Boolean) as SoldProvider[];
+}
+
+/**
+ * ===== FALLBACK CHAIN =====
+ * Providers are tried in order; the first non-empty answer wins. Rate limits are
+ * handled by the shared upstream budget (lib/budget): a refused call is a skip.
+ */
+export async function fetchSoldWithFallback(
+  params: SoldCompsParams,
+  providers: SoldProvider[] = soldProvidersFromEnv()
+): Promise<SoldFetchResult> {
+  const attempts: SoldProviderAttempt[] = [];
+  let cooldownActive = false;
+
+  for (const p of providers) {
+    const base = { provider: p.id, daysBack: params.daysBack, query: params.query };
+
+    try {
+      const comps = await p.fetchSold(params);
+      attempts.push({ ...base, fetched: comps.length });
+
+      if (comps.length) {
+        // replayed fixtures are not fresh sales
+        if (p.remote && fixtureMode() !== "replay") await recordSoldHistory(comps, params.marketplaceId, p.id);
+        return { comps, provider: p.id, attempts, cooldownActive };
+      }
+    } catch (e: any) {
+      if (isBudgetRefusal(e)) {
+        cooldownActive = true;
+        const why = errorCodeOf(e) === "UPSTREAM_CIRCUIT_OPEN" ? "circuit open" : "daily budget spent";
+        attempts.push({ ...base, note: `Skipping SOLD fetch (${why})` });
+        continue;
+      }
+      // raw upstream text stays in the logs; diagnostics get the catalog code
+      console.error(`sold provider ${p.id} failed:`, e?.message || String(e));
+      attempts.push({ ...base, error: errorCodeOf(e) });
+    }
+  }
+
+  return { comps: [], provider: null, attempts, cooldownActive };
+}
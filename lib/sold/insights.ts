@@ -0,0 +1,9 @@
+import type { SoldProvider } from "./types";
+import { fetchInsightsSoldComps } from "../ebay";
+
+// Marketplace Insights item_sales search (needs the buy.marketplace.insights scope)
+export const insightsSoldProvider: SoldProvider = {
+  id: "insights",
+  remote: true,
+  fetchSold: (params) => fetchInsightsSoldComps(params),
+};
@@ -0,0 +1,67 @@
+import type { SoldComp } from "../types";
+import type { SoldProvider } from "./types";
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL, supabase } from "../supabase";
+import { toFindingKeywords } from "../ebay";
+import { normalize } from "../util";
+
+/**
+ * ===== STORED SOLD HISTORY (sold_history table) =====
+ * Filled from every remote provider answer, queried as a fallback when they fail.
+ */
+export const storedSoldProvider: SoldProvider = {
+  id: "stored",
+  remote: false,
+  async fetchSold(params) {
+    const tokens = normalize(toFindingKeywords(params.query)).split(" ").filter(Boolean).slice(0, 6);
+    if (!tokens.length) return [];
+
+    const since = new Date(Date.now() - params.daysBack * 24 * 60 * 60 * 1000);
+
+    let q = supabase
+      .from("sold_history")
+      .select("item_id, title, price_amount, price_currency, condition, url, sold_date")
+      .eq("marketplace_id", params.marketplaceId)
+      .gte("sold_date", since.toISOString());
+    for (const t of tokens) q = q.ilike("title_norm", `%${t}%`);
+
+    const { data, error } = await q.order("sold_date", { ascending: false }).limit(params.limit);
+    if (error) throw new Error(`Stored sold history error: ${error.message}`);
+
+    return (data || []).map(
+      (row: any) =>
+        ({
+          title: row.title,
+          price: { amount: Number(row.price_amount), currency: row.price_currency },
+          condition: row.condition || undefined,
+          url: row.url,
+          itemId: row.item_id,
+          soldDate: row.sold_date,
+        }) as SoldComp
+    );
+  },
+};
+
+// skipped without Supabase (STORAGE_BACKEND=memory)
+export async function recordSoldHistory(comps: SoldComp[], marketplaceId: string, provider: string) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return;
+  const rows = comps
+    .filter((c) => c.itemId && c.soldDate)
+    .map((c) => ({
+      marketplace_id: marketplaceId,
+      item_id: c.itemId,
+      title: c.title,
+      title_norm: normalize(c.title),
+      price_amount: c.price.amount,
+      price_currency: c.price.currency,
+      condition: c.condition || null,
+      url: c.url,
+      sold_date: c.soldDate,
+      provider,
+    }));
+  if (!rows.length) return;
+
+  const { error } = await supabase
+    .from("sold_history")
+    .upsert(rows, { onConflict: "marketplace_id,item_id" });
+  if (error) console.error("sold_history write failed:", error.message);
+}
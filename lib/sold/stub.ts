@@ -0,0 +1,36 @@
+import fs from "fs";
+import type { SoldComp } from "../types";
+import type { SoldCompsParams } from "../sources/types";
+import type { SoldProvider } from "./types";
+
+/**
+ * ===== STUB PROVIDERS (offline) =====
+ */
+type StubResponse = SoldComp[] | Error | ((params: SoldCompsParams) => SoldComp[] | Promise<SoldComp[]>);
+
+export function createStubSoldProvider(id: string, respond: StubResponse, remote = false): SoldProvider {
+  return {
+    id,
+    remote,
+    async fetchSold(params) {
+      if (respond instanceof Error) throw respond;
+      if (typeof respond === "function") return respond(params);
+      return respond.slice(0, params.limit);
+    },
+  };
+}
+
+// SOLD_STUB_FILE: JSON { "<sold query>": SoldComp[], "*": SoldComp[] }
+let fixtures: Record<string, SoldComp[]> | null = null;
+
+function loadFixtures(): Record<string, SoldComp[]> {
+  if (fixtures) return fixtures;
+  const file = process.env.SOLD_STUB_FILE || "";
+  fixtures = file ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+  return fixtures;
+}
+
+export const fixtureSoldProvider = createStubSoldProvider("stub", (params) => {
+  const all = loadFixtures();
+  return (all[params.query] || all["*"] || []).slice(0, params.limit);
+});
@@ -0,0 +1,31 @@
+import type { SoldComp } from "../types";
+import type { SoldCompsParams } from "../sources/types";
+
+/**
+ * ===== SOLD-DATA PROVIDER CONTRACT =====
+ */
+export type SoldProvider = {
+  id: string;
+  // true when it calls an upstream API (counted against the upstream budget)
+  remote: boolean;
+  fetchSold(params: SoldCompsParams): Promise<SoldComp[]>;
+};
+
+// One row per provider tried; surfaced as meta.soldDiagnostics
+export type SoldProviderAttempt = {
+  provider: string;
+  daysBack: number;
+  query: string;
+  fetched?: number;
+  // ErrorCode from lib/errors
+  error?: string;
+  note?: string;
+};
+
+export type SoldFetchResult = {
+  comps: SoldComp[];
+  // provider that answered (null when every provider failed or came back empty)
+  provider: string | null;
+  attempts: SoldProviderAttempt[];
+  cooldownActive: boolean;
+};
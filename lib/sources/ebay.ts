@@ -0,0 +1,37 @@
+import type { ParsedListingUrl, SourceAdapter } from "./types";
+import { hostOf } from "./types";
+import { fetchActiveComps } from "../ebay";
+import { fetchSoldWithFallback } from "../sold";
+import { DEFAULT_MARKETPLACE_ID, marketplaceFromUrl, marketplaceLocale } from "../marketplaces";
+
+/**
+ * ===== URL PARSING =====
+ */
+function itemIdFromUrl(url: string): string | null {
+  // /itm/<id>, /itm/<slug>/<id>, or ?item= / ?itemId= (mobile + legacy ViewItem links)
+  const m = (url || "").match(/\/itm\/(?:[^/?#]+\/)?(\d{9,15})/) || (url || "").match(/[?&]item(?:Id)?=(\d{9,15})/i);
+  return m?.[1] || null;
+}
+
+function parseEbayUrl(url: string): ParsedListingUrl {
+  const itemId = itemIdFromUrl(url);
+  // no URL (bare itemId request): the default site
+  if (!url) return { itemId, marketplaceId: DEFAULT_MARKETPLACE_ID };
+
+  const marketplace = marketplaceFromUrl(url);
+  if (!marketplace) {
+    return { itemId, marketplaceId: DEFAULT_MARKETPLACE_ID, unsupported: `Unsupported eBay site: ${hostOf(url) || url}` };
+  }
+  // language sites only (cafr., benl.): the country's default locale stays implicit
+  const locale = marketplace.locale !== marketplaceLocale(marketplace.id) ? marketplace.locale : undefined;
+  return { itemId, marketplaceId: marketplace.id, ...(locale ? { locale } : {}) };
+}
+
+export const ebaySource: SourceAdapter = {
+  id: "ebay",
+  label: "eBay",
+  matchesUrl: (url) => /(^|\.)ebay\./.test(hostOf(url)),
+  parseUrl: parseEbayUrl,
+  fetchActiveComps,
+  fetchSoldComps: (params) => fetchSoldWithFallback(params),
+};
@@ -0,0 +1,25 @@
+import type { SourceId } from "../types";
+import type { SourceAdapter } from "./types";
+import { ebaySource } from "./ebay";
+import { vestiaireSource } from "./vestiaire";
+import { theRealRealSource } from "./therealreal";
+import { poshmarkSource } from "./poshmark";
+
+export type { SourceAdapter, ParsedListingUrl, ActiveCompsParams, SoldCompsParams } from "./types";
+
+/**
+ * ===== SOURCE REGISTRY =====
+ */
+const SOURCES: SourceAdapter[] = [ebaySource, vestiaireSource, theRealRealSource, poshmarkSource];
+
+export function getSourceAdapter(id: string): SourceAdapter | null {
+  return SOURCES.find((s) => s.id === id) || null;
+}
+
+export function detectSourceFromUrl(url: string): SourceAdapter | null {
+  return SOURCES.find((s) => s.matchesUrl(url)) || null;
+}
+
+export function supportedSourceIds(): SourceId[] {
+  return SOURCES.map((s) => s.id);
+}
@@ -0,0 +1,26 @@
+import type { SourceAdapter } from "./types";
+import { hostOf } from "./types";
+import { ebaySource } from "./ebay";
+
+/**
+ * ===== POSHMARK =====
+ * No public search API; comps come from the eBay site for the Poshmark country.
+ */
+function marketplaceIdFromUrl(url: string): string {
+  return hostOf(url).endsWith("poshmark.ca") ? "EBAY_CA" : "EBAY_US";
+}
+
+function itemIdFromUrl(url: string): string | null {
+  // e.g. /listing/Louis-Vuitton-Speedy-30-5f1c2b3a4d5e6f7a8b9c0d1e
+  const m = (url || "").match(/\/listing\/(?:[^/?#]*-)?([0-9a-f]{24})\b/i);
+  return m?.[1] || null;
+}
+
+export const poshmarkSource: SourceAdapter = {
+  id: "poshmark",
+  label: "Poshmark",
+  matchesUrl: (url) => /(^|\.)poshmark\.(com|ca)$/.test(hostOf(url)),
+  parseUrl: (url) => ({ itemId: itemIdFromUrl(url), marketplaceId: marketplaceIdFromUrl(url) }),
+  fetchActiveComps: (params) => ebaySource.fetchActiveComps(params),
+  fetchSoldComps: (params) => ebaySource.fetchSoldComps(params),
+};
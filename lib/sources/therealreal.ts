@@ -0,0 +1,22 @@
+import type { SourceAdapter } from "./types";
+import { hostOf } from "./types";
+import { ebaySource } from "./ebay";
+
+/**
+ * ===== THE REALREAL =====
+ * US-only consignment site without a public search API; comps come from eBay US.
+ */
+function itemIdFromUrl(url: string): string | null {
+  // e.g. /products/women/handbags/totes/louis-vuitton-monogram-neverfull-mm-abc12
+  const m = (url || "").match(/\/products\/(?:[^/?#]+\/)*([^/?#]+)/);
+  return m?.[1] || null;
+}
+
+export const theRealRealSource: SourceAdapter = {
+  id: "therealreal",
+  label: "The RealReal",
+  matchesUrl: (url) => /(^|\.)therealreal\.com$/.test(hostOf(url)),
+  parseUrl: (url) => ({ itemId: itemIdFromUrl(url), marketplaceId: "EBAY_US" }),
+  fetchActiveComps: (params) => ebaySource.fetchActiveComps(params),
+  fetchSoldComps: (params) => ebaySource.fetchSoldComps(params),
+};
@@ -0,0 +1,61 @@
+import type { Comp, SourceId } from "../types";
+import type { SoldFetchResult } from "../sold/types";
+import type { UpstreamPriority } from "../budget";
+import type { CooldownStore } from "../stores";
+
+/**
+ * ===== SOURCE ADAPTER CONTRACT =====
+ *
+ * A source is the marketplace the user pasted the listing from. Each adapter owns
+ * URL parsing / marketplace detection and the comp fetches; ranking + stats stay shared.
+ */
+export type ParsedListingUrl = {
+  itemId: string | null;
+  // eBay marketplace used for comps (e.g. EBAY_GB)
+  marketplaceId: string;
+  // language site within it (e.g. fr-CA for cafr.ebay.ca); unset = the country's default
+  locale?: string;
+  // set when the URL points at a site we cannot map to a marketplace
+  unsupported?: string;
+};
+
+export type ActiveCompsParams = {
+  query: string;
+  limit: number;
+  marketplaceId: string;
+  locale?: string;
+  currency: string;
+  filter: string;
+  // who the upstream budget serves first when it runs low
+  priority?: UpstreamPriority;
+  // where that budget is kept (default: defaultStores())
+  cooldowns?: CooldownStore;
+};
+
+export type SoldCompsParams = {
+  query: string;
+  limit: number;
+  marketplaceId: string;
+  locale?: string;
+  currency: string;
+  daysBack: number;
+  priority?: UpstreamPriority;
+  cooldowns?: CooldownStore;
+};
+
+export type SourceAdapter = {
+  id: SourceId;
+  label: string;
+  matchesUrl(url: string): boolean;
+  parseUrl(url: string): ParsedListingUrl;
+  fetchActiveComps(params: ActiveCompsParams): Promise<Comp[]>;
+  fetchSoldComps(params: SoldCompsParams): Promise<SoldFetchResult>;
+};
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
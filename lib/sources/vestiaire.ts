@@ -0,0 +1,36 @@
+import type { SourceAdapter } from "./types";
+import { hostOf } from "./types";
+import { ebaySource } from "./ebay";
+
+/**
+ * ===== VESTIAIRE COLLECTIVE =====
+ * No public search API, so comps come from the eBay site matching the Vestiaire locale.
+ */
+const SUBDOMAIN_MARKETPLACE: Record<string, string> = {
+  us: "EBAY_US",
+  uk: "EBAY_GB",
+  de: "EBAY_DE",
+  fr: "EBAY_FR",
+  it: "EBAY_IT",
+  es: "EBAY_ES",
+};
+
+function marketplaceIdFromUrl(url: string): string {
+  const sub = hostOf(url).split(".")[0];
+  return SUBDOMAIN_MARKETPLACE[sub] || "EBAY_US";
+}
+
+function itemIdFromUrl(url: string): string | null {
+  // e.g. /women-bags/handbags/louis-vuitton/brown-cloth-neverfull-handbag-41273145.shtml
+  const m = (url || "").match(/-(\d{5,})\.shtml/);
+  return m?.[1] || null;
+}
+
+export const vestiaireSource: SourceAdapter = {
+  id: "vestiaire",
+  label: "Vestiaire Collective",
+  matchesUrl: (url) => /(^|\.)vestiairecollective\.com$/.test(hostOf(url)),
+  parseUrl: (url) => ({ itemId: itemIdFromUrl(url), marketplaceId: marketplaceIdFromUrl(url) }),
+  fetchActiveComps: (params) => ebaySource.fetchActiveComps(params),
+  fetchSoldComps: (params) => ebaySource.fetchSoldComps(params),
+};
@@ -0,0 +1,135 @@
+/**
+ * ===== BASIC STATS =====
+ */
+export function median(arr: number[]): number {
+  const a = [...arr].sort((x, y) => x - y);
+  if (!a.length) return 0;
+  const mid = Math.floor(a.length / 2);
+  return a.length % 2 ? a[mid] : (a[mid - 1] + a[mid]) / 2;
+}
+
+export function percentile(arr: number[], p: number): number {
+  const a = [...arr].sort((x, y) => x - y);
+  if (!a.length) return 0;
+  const idx = (a.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  if (lo === hi) return a[lo];
+  return a[lo] + (a[hi] - a[lo]) * (idx - lo);
+}
+
+export function clamp(n: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, n));
+}
+
+export function weightedMedian(values: number[], weights: number[]): number {
+  const pairs = values
+    .map((v, i) => ({ v, w: weights[i] ?? 0 }))
+    .filter((p) => Number.isFinite(p.v) && p.w > 0)
+    .sort((a, b) => a.v - b.v);
+  if (!pairs.length) return 0;
+
+  const total = pairs.reduce((s, p) => s + p.w, 0);
+  let acc = 0;
+  for (const p of pairs) {
+    acc += p.w;
+    if (acc >= total / 2) return p.v;
+  }
+  return pairs[pairs.length - 1].v;
+}
+
+/**
+ * ===== OUTLIER REJECTION =====
+ * MAD (modified z-score > 3.5) by default; IQR fences (1.5x) as the alternative.
+ * Fewer than MIN_OUTLIER_SAMPLE values are returned untouched.
+ */
+export type OutlierMethod = "mad" | "iqr";
+
+export type OutlierResult = {
+  method: OutlierMethod;
+  // indices into the input
+  kept: number[];
+  rejected: number[];
+  bounds: { low: number; high: number } | null;
+};
+
+const MIN_OUTLIER_SAMPLE = 5;
+const MAD_Z_LIMIT = 3.5;
+const IQR_FENCE = 1.5;
+
+export function mad(values: number[]): number {
+  const m = median(values);
+  return median(values.map((v) => Math.abs(v - m)));
+}
+
+export function rejectOutliers(values: number[], method: OutlierMethod = "mad"): OutlierResult {
+  const all = values.map((_, i) => i);
+  if (values.length < MIN_OUTLIER_SAMPLE) return { method, kept: all, rejected: [], bounds: null };
+
+  let low: number;
+  let high: number;
+  if (method === "iqr") {
+    const q1 = percentile(values, 0.25);
+    const q3 = percentile(values, 0.75);
+    low = q1 - IQR_FENCE * (q3 - q1);
+    high = q3 + IQR_FENCE * (q3 - q1);
+  } else {
+    // 0.6745 scales MAD to a normal sigma
+    const m = median(values);
+    const spread = (MAD_Z_LIMIT * mad(values)) / 0.6745;
+    // half the sample at one price: MAD is 0, nothing to judge by
+    if (spread === 0) return { method, kept: all, rejected: [], bounds: null };
+    low = m - spread;
+    high = m + spread;
+  }
+
+  const kept = all.filter((i) => values[i] >= low && values[i] <= high);
+  const rejected = all.filter((i) => values[i] < low || values[i] > high);
+  return { method, kept, rejected, bounds: { low, high } };
+}
+
+/**
+ * ===== BOOTSTRAP =====
+ * Percentile interval of a weighted statistic over resamples. Seeded, so the
+ * same comps always give the same range (responses are cached and compared).
+ */
+export type BootstrapInterval = { low: number; high: number; level: number; iterations: number };
+
+function seededRandom(seed: number) {
+  // mulberry32
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function bootstrapInterval(
+  values: number[],
+  weights: number[],
+  stat: (values: number[], weights: number[]) => number = weightedMedian,
+  opts: { iterations?: number; level?: number; seed?: number } = {}
+): BootstrapInterval | null {
+  const iterations = opts.iterations ?? 500;
+  const level = opts.level ?? 0.8;
+  if (values.length < 2) return null;
+
+  const rand = seededRandom(opts.seed ?? 42);
+  const stats: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const v: number[] = [];
+    const w: number[] = [];
+    for (let j = 0; j < values.length; j++) {
+      const k = Math.floor(rand() * values.length);
+      v.push(values[k]);
+      w.push(weights[k] ?? 1);
+    }
+    stats.push(stat(v, w));
+  }
+
+  const tail = (1 - level) / 2;
+  return { low: percentile(stats, tail), high: percentile(stats, 1 - tail), level, iterations };
+}
@@ -0,0 +1,46 @@
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from "../supabase";
+import type { Stores } from "./types";
+import { supabaseStores } from "./supabase";
+import { createMemoryStores } from "./memory";
+
+export type {
+  BudgetAcquireParams,
+  BudgetAcquireResult,
+  BudgetRow,
+  BreakerParams,
+  CacheEntry,
+  CacheStore,
+  CooldownStore,
+  CreditPeriod,
+  DebitParams,
+  DebitRow,
+  Stores,
+  UserRow,
+  UserStore,
+} from "./types";
+export { createMemoryStores } from "./memory";
+export { supabaseStores } from "./supabase";
+
+/**
+ * ===== BACKEND SELECTION =====
+ * STORAGE_BACKEND=memory runs without Supabase (local dev); anything else uses it.
+ * Routes take their stores as a parameter so tests can pass their own.
+ * Only the analyze flow has stores. Without Supabase the rest degrades: sold and
+ * price history are neither read nor written, fx uses the static table, scoring
+ * the bundled config, and the watchlist / history / fx-refresh routes answer
+ * SERVER_MISCONFIGURED.
+ */
+const STORAGE_BACKEND = (process.env.STORAGE_BACKEND || "supabase").toLowerCase();
+
+let memoryStores: Stores | null = null;
+
+export function defaultStores(): Stores {
+  if (STORAGE_BACKEND !== "memory") return supabaseStores;
+  if (!memoryStores) memoryStores = createMemoryStores();
+  return memoryStores;
+}
+
+// false = the Supabase backend is selected but its env vars are missing
+export function storesConfigured(): boolean {
+  return STORAGE_BACKEND === "memory" || (!!SUPABASE_URL && !!SUPABASE_SERVICE_ROLE_KEY);
+}
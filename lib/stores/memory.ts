@@ -0,0 +1,191 @@
+import type { BudgetRow, CacheEntry, Stores, UserRow } from "./types";
+import { periodStart } from "../credits";
+import { pacificDay } from "../util";
+
+/**
+ * ===== IN-MEMORY STORES =====
+ * Same semantics as the Supabase RPCs, kept in the process: local dev
+ * (STORAGE_BACKEND=memory) and tests. Nothing survives a restart.
+ */
+type LedgerRow = {
+  id: number;
+  deviceId: string;
+  cost: number;
+  fromAllowance: number;
+  fromBalance: number;
+  refunded: boolean;
+};
+
+type BudgetState = BudgetRow & { consecutiveFailures: number; probingUntil: number | null };
+
+// start of the next Pacific day, when eBay quotas reset
+function nextPacificMidnight(at = new Date()): string {
+  const offset = at
+    .toLocaleString("en-US", { timeZone: "America/Los_Angeles", timeZoneName: "shortOffset" })
+    .match(/GMT([+-]\d+)/);
+  const hoursBehindUtc = offset ? -Number(offset[1]) : 8;
+  return new Date(Date.parse(`${pacificDay(at)}T00:00:00Z`) + (24 + hoursBehindUtc) * 60 * 60 * 1000).toISOString();
+}
+
+// jsonb round trip: callers must not share objects with the store
+const copy = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+export function createMemoryStores(seed: { users?: (Partial<UserRow> & { device_id: string })[] } = {}): Stores {
+  const userRows = new Map<string, UserRow>();
+  const ledger: LedgerRow[] = [];
+  // like the table's identity column: never reused
+  let nextLedgerId = 1;
+  const cacheRows = new Map<string, CacheEntry>();
+  const budget = new Map<string, BudgetState>();
+
+  const newUser = (deviceId: string, extra: Partial<UserRow> = {}): UserRow => ({
+    device_id: deviceId,
+    plan: "free",
+    credits_remaining: 0,
+    period_used: 0,
+    period_started_at: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+    ...extra,
+  });
+  for (const u of seed.users || []) userRows.set(u.device_id, newUser(u.device_id, u));
+
+  return {
+    users: {
+      async getOrCreate(deviceId) {
+        if (!userRows.has(deviceId)) userRows.set(deviceId, newUser(deviceId));
+        return copy(userRows.get(deviceId) as UserRow);
+      },
+
+      async debit(p) {
+        const u = userRows.get(p.deviceId);
+        if (!u) throw new Error(`unknown device ${p.deviceId}`);
+
+        const start = periodStart(p.period);
+        if (new Date(u.period_started_at).getTime() < start.getTime()) {
+          u.period_used = 0;
+          u.period_started_at = start.toISOString();
+        }
+
+        const fromAllowance = Math.min(p.cost, Math.max(p.allowance - u.period_used, 0));
+        const fromBalance = p.cost - fromAllowance;
+        if (fromBalance > u.credits_remaining) {
+          return {
+            ok: false,
+            ledgerId: null,
+            creditsRemaining: u.credits_remaining,
+            allowanceRemaining: Math.max(p.allowance - u.period_used, 0),
+            periodStartedAt: u.period_started_at,
+          };
+        }
+
+        u.period_used += fromAllowance;
+        u.credits_remaining -= fromBalance;
+        const id = nextLedgerId++;
+        ledger.push({ id, deviceId: p.deviceId, cost: p.cost, fromAllowance, fromBalance, refunded: false });
+
+        return {
+          ok: true,
+          ledgerId: id,
+          creditsRemaining: u.credits_remaining,
+          allowanceRemaining: Math.max(p.allowance - u.period_used, 0),
+          periodStartedAt: u.period_started_at,
+        };
+      },
+
+      async refund(ledgerId) {
+        const l = ledger.find((r) => r.id === ledgerId && r.cost > 0);
+        if (!l || l.refunded) return;
+        l.refunded = true;
+        const u = userRows.get(l.deviceId);
+        if (!u) return;
+
+        u.period_used = Math.max(u.period_used - l.fromAllowance, 0);
+        u.credits_remaining += l.fromBalance;
+      },
+    },
+
+    cache: {
+      async get(key) {
+        const row = cacheRows.get(key);
+        return row ? copy(row) : null;
+      },
+
+      async set(key, value, expiresAt) {
+        cacheRows.set(key, { value: copy(value), expiresAt: expiresAt.toISOString() });
+      },
+    },
+
+    cooldowns: {
+      async acquire(service, p) {
+        const today = pacificDay();
+        let b = budget.get(service);
+        if (!b) {
+          b = {
+            service,
+            day: today,
+            calls: 0,
+            failures: 0,
+            rejected: 0,
+            trips: 0,
+            openedUntil: null,
+            consecutiveFailures: 0,
+            probingUntil: null,
+          };
+          budget.set(service, b);
+        }
+        if (b.day < today) Object.assign(b, { day: today, calls: 0, failures: 0, rejected: 0 });
+
+        let reason: "circuit_open" | "budget_exhausted" | "reserved_for_paid" | null = null;
+        let retryAt: string | null = null;
+        if (b.openedUntil && new Date(b.openedUntil).getTime() > Date.now()) {
+          reason = "circuit_open";
+          retryAt = b.openedUntil;
+        } else if (b.trips > 0 && b.probingUntil && b.probingUntil > Date.now()) {
+          // half-open: one probe at a time
+          reason = "circuit_open";
+          retryAt = new Date(b.probingUntil).toISOString();
+        } else if (b.calls >= p.dailyLimit) {
+          reason = "budget_exhausted";
+        } else if (!p.paid && b.calls >= p.dailyLimit - p.reserve) {
+          reason = "reserved_for_paid";
+        }
+        if (reason === "budget_exhausted" || reason === "reserved_for_paid") retryAt = nextPacificMidnight();
+
+        if (reason) b.rejected += 1;
+        else b.calls += 1;
+        if (!reason && b.trips > 0) b.probingUntil = Date.now() + p.probeSeconds * 1000;
+        const breakerClean = b.trips === 0 && b.consecutiveFailures === 0;
+        return { allowed: !reason, reason, callsToday: b.calls, retryAt, breakerClean };
+      },
+
+      async record(service, outcome, p) {
+        const b = budget.get(service);
+        if (!b) return null;
+
+        b.probingUntil = null;
+        if (outcome === "ok") {
+          b.consecutiveFailures = 0;
+          b.trips = 0;
+          return null;
+        }
+
+        b.failures += 1;
+        // a 429, a run of failures, or a failed probe after a trip (half-open) opens the breaker
+        if (outcome === "rate_limited" || b.consecutiveFailures + 1 >= p.failureThreshold || b.trips > 0) {
+          const backoff = Math.min(p.baseBackoffSeconds * Math.pow(2, b.trips), p.maxBackoffSeconds);
+          b.openedUntil = new Date(Date.now() + backoff * (0.5 + Math.random() / 2) * 1000).toISOString();
+          b.consecutiveFailures = 0;
+          b.trips += 1;
+          return b.openedUntil;
+        }
+
+        b.consecutiveFailures += 1;
+        return null;
+      },
+
+      async snapshot() {
+        return Array.from(budget.values()).map(({ consecutiveFailures, probingUntil, ...row }) => ({ ...row }));
+      },
+    },
+  };
+}
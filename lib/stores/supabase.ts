@@ -0,0 +1,120 @@
+import { supabase } from "../supabase";
+import type { CacheStore, CooldownStore, Stores, UserRow, UserStore } from "./types";
+
+/**
+ * ===== SUPABASE STORES =====
+ * users + credit RPCs (20261019000200_credits.sql), cache table,
+ * upstream_budget RPCs (20261019000600_upstream_budget.sql).
+ */
+const users: UserStore = {
+  async getOrCreate(deviceId) {
+    const { data: existingUser, error: userFetchErr } = await supabase
+      .from("users")
+      .select("*")
+      .eq("device_id", deviceId)
+      .maybeSingle();
+    if (userFetchErr) throw userFetchErr;
+    if (existingUser) return existingUser as UserRow;
+
+    const { data: newUser, error: userCreateErr } = await supabase
+      .from("users")
+      .insert({ device_id: deviceId, plan: "free", credits_remaining: 0 })
+      .select("*")
+      .single();
+    if (userCreateErr) throw userCreateErr;
+    return newUser as UserRow;
+  },
+
+  async debit(params) {
+    const { data, error } = await supabase.rpc("debit_analysis_credit", {
+      p_device_id: params.deviceId,
+      p_plan: params.plan,
+      p_cost: params.cost,
+      p_allowance: params.allowance,
+      p_period: params.period,
+      p_reason: params.reason,
+      p_ref: params.ref,
+    });
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as any;
+    return {
+      ok: !!row.ok,
+      ledgerId: row.ledger_id ?? null,
+      creditsRemaining: Number(row.credits_remaining),
+      allowanceRemaining: Number(row.allowance_remaining),
+      periodStartedAt: row.period_started_at,
+    };
+  },
+
+  async refund(ledgerId) {
+    const { error } = await supabase.rpc("refund_analysis_credit", { p_ledger_id: ledgerId });
+    if (error) throw error;
+  },
+};
+
+const cache: CacheStore = {
+  async get(key) {
+    const { data } = await supabase.from("cache").select("value_json, expires_at").eq("key", key).maybeSingle();
+    return data?.value_json ? { value: data.value_json, expiresAt: data.expires_at } : null;
+  },
+
+  async set(key, value, expiresAt) {
+    const { error } = await supabase.from("cache").upsert({
+      key,
+      value_json: value,
+      expires_at: expiresAt.toISOString(),
+    });
+    if (error) console.error("cache write failed:", error.message);
+  },
+};
+
+const cooldowns: CooldownStore = {
+  async acquire(service, params) {
+    const { data, error } = await supabase.rpc("acquire_upstream_call", {
+      p_service: service,
+      p_daily_limit: params.dailyLimit,
+      p_reserve: params.reserve,
+      p_paid: params.paid,
+      p_probe_seconds: params.probeSeconds,
+    });
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) as any;
+    return {
+      allowed: row ? !!row.allowed : true,
+      reason: row?.reason ?? null,
+      callsToday: Number(row?.calls_today ?? 0),
+      retryAt: row?.retry_at ?? null,
+      breakerClean: row ? !!row.breaker_clean : false,
+    };
+  },
+
+  async record(service, outcome, params) {
+    const { data, error } = await supabase.rpc("record_upstream_result", {
+      p_service: service,
+      p_outcome: outcome,
+      p_failure_threshold: params.failureThreshold,
+      p_base_backoff_seconds: params.baseBackoffSeconds,
+      p_max_backoff_seconds: params.maxBackoffSeconds,
+    });
+    if (error) throw error;
+    return (data as string | null) || null;
+  },
+
+  async snapshot() {
+    const { data, error } = await supabase.from("upstream_budget").select("*");
+    if (error) throw error;
+    return (data || []).map((r: any) => ({
+      service: r.service,
+      day: r.day,
+      calls: Number(r.calls),
+      failures: Number(r.failures),
+      rejected: Number(r.rejected),
+      trips: Number(r.trips),
+      openedUntil: r.opened_until,
+    }));
+  },
+};
+
+export const supabaseStores: Stores = { users, cache, cooldowns };
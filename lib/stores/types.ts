@@ -0,0 +1,100 @@
+import type { UpstreamService } from "../budget";
+
+/**
+ * ===== STORE CONTRACTS =====
+ * What the analyze flow persists. Each operation is atomic in the backend
+ * (Supabase: one RPC / statement), so callers never read-modify-write.
+ */
+export type UserRow = {
+  device_id: string;
+  plan: string;
+  credits_remaining: number;
+  period_used: number;
+  period_started_at: string;
+  created_at: string;
+};
+
+export type CreditPeriod = "day" | "month";
+
+export type DebitParams = {
+  deviceId: string;
+  plan: string;
+  cost: number;
+  allowance: number;
+  period: CreditPeriod;
+  reason: "analysis" | "cached_hit" | "watch_check";
+  ref: string;
+};
+
+export type DebitRow = {
+  ok: boolean;
+  ledgerId: number | null;
+  creditsRemaining: number;
+  allowanceRemaining: number;
+  periodStartedAt: string;
+};
+
+export type UserStore = {
+  getOrCreate(deviceId: string): Promise<UserRow>;
+  // rolls the period, spends allowance then balance, writes the ledger row
+  debit(params: DebitParams): Promise<DebitRow>;
+  // no-op for unknown or already refunded ledger ids
+  refund(ledgerId: number): Promise<void>;
+};
+
+export type CacheEntry = { value: any; expiresAt: string };
+
+// misses and write failures are not errors: the analysis just runs uncached
+export type CacheStore = {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, value: any, expiresAt: Date): Promise<void>;
+};
+
+export type BudgetAcquireParams = {
+  dailyLimit: number;
+  reserve: number;
+  paid: boolean;
+  // how long a half-open probe holds everyone else off if it never reports back
+  probeSeconds: number;
+};
+
+export type BudgetAcquireResult = {
+  allowed: boolean;
+  reason: "circuit_open" | "budget_exhausted" | "reserved_for_paid" | null;
+  callsToday: number;
+  retryAt: string | null;
+  // closed breaker with no failures: a success has nothing to record
+  breakerClean: boolean;
+};
+
+export type BreakerParams = { failureThreshold: number; baseBackoffSeconds: number; maxBackoffSeconds: number };
+
+export type BudgetRow = {
+  service: string;
+  // Pacific date the counters belong to
+  day: string;
+  calls: number;
+  failures: number;
+  rejected: number;
+  // breaker openings since the last success; > 0 with a closed breaker = half open
+  trips: number;
+  openedUntil: string | null;
+};
+
+// upstream call budget + circuit breaker state (lib/budget)
+export type CooldownStore = {
+  acquire(service: UpstreamService, params: BudgetAcquireParams): Promise<BudgetAcquireResult>;
+  // returns the time the breaker is now open until, if this result opened it
+  record(
+    service: UpstreamService,
+    outcome: "ok" | "failure" | "rate_limited",
+    params: BreakerParams
+  ): Promise<string | null>;
+  snapshot(): Promise<BudgetRow[]>;
+};
+
+export type Stores = {
+  users: UserStore;
+  cache: CacheStore;
+  cooldowns: CooldownStore;
+};
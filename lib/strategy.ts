@@ -0,0 +1,142 @@
+import type { AnalyzeRequest, Comp, SoldComp } from "./types";
+import type { ListingAttributes } from "./attributes";
+import type { CategoryPlugin, QueryField } from "./categories";
+import type { SoldFetchResult, SoldProviderAttempt } from "./sold";
+import { normalize } from "./util";
+
+/**
+ * ===== SOLD SEARCH STRATEGY =====
+ * Most specific query first, narrowest window first. The first attempt with
+ * minQualitySold quality comps wins; otherwise the best attempt seen.
+ * Every attempt is a provider-chain pass (upstream calls): only the most specific
+ * rung walks every window, relaxed rungs go straight to the widest one, and a rung
+ * that found enough comps (if not enough quality ones) is not relaxed any further.
+ */
+export const SOLD_WINDOWS = [90, 180, 365];
+
+// a relaxed query is already broad; its narrow windows would rarely add anything
+export const RELAXED_SOLD_WINDOWS = [365];
+
+// every window of the first rung + the widest window of up to 3 relaxed rungs
+// (the longest category ladder, watches, has 4 rungs)
+export const MAX_SOLD_ATTEMPTS = SOLD_WINDOWS.length + 3 * RELAXED_SOLD_WINDOWS.length;
+
+// lib/scoring: a comp scoring >= qualityScore is a quality comp
+export type SoldQualityBar = { qualityScore: number; minQualitySold: number };
+
+export type SoldQueryRung = {
+  // which attributes the query still carries, e.g. "brand+model+size"
+  level: string;
+  // 0 = most specific query this listing allows
+  relaxation: number;
+  query: string;
+};
+
+export function soldQueryLadder(
+  body: AnalyzeRequest,
+  attrs: ListingAttributes,
+  category: CategoryPlugin
+): SoldQueryRung[] {
+  const brand = attrs.brand || "";
+  const size = category.sizeKey(attrs) || "";
+  const field: Record<QueryField, string> = {
+    brand,
+    model: attrs.model || "",
+    reference: attrs.reference || "",
+    size,
+    material: attrs.material || "",
+  };
+
+  // the category's ladder, skipping rungs whose attributes the title lacks
+  const rungs: SoldQueryRung[] = [];
+  for (const fields of category.soldLadder) {
+    const parts = fields.map((f) => field[f]);
+    if (parts.some((p) => !p)) continue;
+    const query = parts.join(" ").trim().slice(0, 120);
+    if (rungs.some((r) => r.query === query)) continue;
+    rungs.push({ level: fields.join("+"), relaxation: rungs.length, query });
+  }
+  if (rungs.length) return rungs;
+
+  // no catalog model: brand + size, else brand + leading title words
+  if (brand && size) return [{ level: "brand+size", relaxation: 0, query: `${brand} ${size}`.slice(0, 120) }];
+  const tokens = normalize(body.title || "").split(" ").filter(Boolean).slice(0, 4);
+  return [{ level: "title", relaxation: 0, query: [brand, ...tokens].filter(Boolean).join(" ").slice(0, 120) }];
+}
+
+// One row per (query, window) tried; surfaced as meta.soldDiagnostics
+export type SoldStrategyAttempt = {
+  level: string;
+  relaxation: number;
+  query: string;
+  daysBack: number;
+  provider: string | null;
+  fetched: number;
+  kept: number;
+  quality: number;
+  accepted: boolean;
+  providers: SoldProviderAttempt[];
+};
+
+export type SoldSearchResult<E> = {
+  rung: SoldQueryRung;
+  daysBack: number;
+  sold: SoldFetchResult;
+  evaluated: E;
+  attempts: SoldStrategyAttempt[];
+  cooldownActive: boolean;
+  // false when no attempt reached minQualitySold
+  satisfied: boolean;
+};
+
+export async function searchSoldComps<E extends { ranked: Comp[] }>(
+  ladder: SoldQueryRung[],
+  fetchSold: (query: string, daysBack: number) => Promise<SoldFetchResult>,
+  evaluate: (comps: SoldComp[]) => E,
+  bar: SoldQualityBar
+): Promise<SoldSearchResult<E>> {
+  const attempts: SoldStrategyAttempt[] = [];
+  let cooldownActive = false;
+  let best: { rung: SoldQueryRung; daysBack: number; sold: SoldFetchResult; evaluated: E; quality: number } | null =
+    null;
+
+  search: for (const rung of ladder) {
+    for (const daysBack of rung.relaxation === 0 ? SOLD_WINDOWS : RELAXED_SOLD_WINDOWS) {
+      if (attempts.length >= MAX_SOLD_ATTEMPTS) break search;
+
+      const sold = await fetchSold(rung.query, daysBack);
+      if (sold.cooldownActive) cooldownActive = true;
+
+      const evaluated = evaluate(sold.comps);
+      const quality = evaluated.ranked.filter((c) => (c.qualityScore || 0) >= bar.qualityScore).length;
+      const accepted = quality >= bar.minQualitySold;
+
+      attempts.push({
+        level: rung.level,
+        relaxation: rung.relaxation,
+        query: rung.query,
+        daysBack,
+        provider: sold.provider,
+        fetched: sold.comps.length,
+        kept: evaluated.ranked.length,
+        quality,
+        accepted,
+        providers: sold.attempts,
+      });
+
+      // ties keep the earlier (more specific / more recent) attempt
+      const better =
+        !best ||
+        quality > best.quality ||
+        (quality === best.quality && evaluated.ranked.length > best.evaluated.ranked.length);
+      if (better) best = { rung, daysBack, sold, evaluated, quality };
+
+      if (accepted) return { ...best, attempts, cooldownActive, satisfied: true };
+    }
+
+    // broader queries only dilute a rung that already had enough comps
+    if (best && best.rung === rung && best.evaluated.ranked.length >= bar.minQualitySold) break;
+  }
+
+  return { ...best, attempts, cooldownActive, satisfied: false };
+}
@@ -0,0 +1,28 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * ===== ENV =====
+ */
+export const SUPABASE_URL = process.env.SUPABASE_URL || "";
+export const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+
+// Unconfigured (STORAGE_BACKEND=memory, local dev): every query resolves to an error
+// without touching the network, so the callers' fallbacks (static FX, bundled scoring, ...) apply.
+// An error response, not a thrown one: postgrest-js retries network errors with backoff.
+const unconfigured = async (): Promise<Response> =>
+  new Response(JSON.stringify({ message: "Supabase is not configured" }), {
+    status: 500,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Only the REST API is used. realtime-js refuses to construct on Node 20 (no global
+// WebSocket) unless given a transport; this one would only run on a subscribe.
+const noRealtime: any = function () {
+  throw new Error("Supabase realtime is not used by this API");
+};
+const realtime = { transport: (globalThis as any).WebSocket || noRealtime };
+
+export const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { realtime })
+    : createClient("http://localhost", "unconfigured", { global: { fetch: unconfigured }, realtime });
@@ -0,0 +1,74 @@
+import type { SoldComp } from "./types";
+import { median } from "./stats";
+
+/**
+ * ===== RECENCY WEIGHTING =====
+ * A sale loses half its weight every RECENCY_HALF_LIFE_DAYS; undated sales count half.
+ */
+export const RECENCY_HALF_LIFE_DAYS = 90;
+const UNDATED_WEIGHT = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function soldAtMs(c: SoldComp): number | null {
+  const t = c.soldDate ? new Date(c.soldDate).getTime() : NaN;
+  return Number.isFinite(t) ? t : null;
+}
+
+export function recencyWeight(c: SoldComp, nowMs = Date.now()): number {
+  const t = soldAtMs(c);
+  if (t == null) return UNDATED_WEIGHT;
+  const ageDays = Math.max((nowMs - t) / DAY_MS, 0);
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * ===== PRICE TREND =====
+ * Monthly median buckets; direction compares the last 3 months with the 3 before.
+ */
+export type TrendDirection = "rising" | "falling" | "stable" | "insufficient_data";
+
+export type PriceTrend = {
+  direction: TrendDirection;
+  changePct: number | null;
+  windowMonths: number;
+  monthly: { month: string; median: number; count: number }[];
+};
+
+const TREND_THRESHOLD_PCT = 5;
+
+function monthKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 7);
+}
+
+export function priceTrend(comps: SoldComp[], nowMs = Date.now()): PriceTrend {
+  const byMonth = new Map<string, number[]>();
+  const recent: number[] = [];
+  const prior: number[] = [];
+
+  for (const c of comps) {
+    const t = soldAtMs(c);
+    const p = c.price?.amount;
+    if (t == null || !Number.isFinite(p) || p <= 0) continue;
+
+    const key = monthKey(t);
+    byMonth.set(key, [...(byMonth.get(key) || []), p]);
+
+    const ageDays = (nowMs - t) / DAY_MS;
+    if (ageDays <= 91) recent.push(p);
+    else if (ageDays <= 182) prior.push(p);
+  }
+
+  const monthly = Array.from(byMonth.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, prices]) => ({ month, median: Math.round(median(prices)), count: prices.length }));
+
+  if (recent.length < 2 || prior.length < 2) {
+    return { direction: "insufficient_data", changePct: null, windowMonths: 6, monthly };
+  }
+
+  const changePct = Number((((median(recent) - median(prior)) / median(prior)) * 100).toFixed(1));
+  const direction: TrendDirection =
+    changePct >= TREND_THRESHOLD_PCT ? "rising" : changePct <= -TREND_THRESHOLD_PCT ? "falling" : "stable";
+
+  return { direction, changePct, windowMonths: 6, monthly };
+}
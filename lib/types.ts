@@ -0,0 +1,52 @@
+import type { ConditionGrade } from "./condition";
+import type { FeeOverrides } from "./profit";
+
+/**
+ * ===== SHARED TYPES =====
+ */
+export type SourceId = "ebay" | "vestiaire" | "therealreal" | "poshmark";
+
+export type AnalyzeRequest = {
+  source: SourceId;
+  url: string;
+  itemId?: string;
+  title: string;
+  price: { amount: number; currency: string };
+  condition?: string;
+  brand?: string;
+  categoryHint?: string;
+  cacheBuster?: string;
+  debugPriceRaw?: string;
+  // seller fee overrides for the profit block
+  fees?: FeeOverrides;
+};
+
+export type Comp = {
+  title: string;
+  price: { amount: number; currency: string };
+  condition?: string;
+  conditionGrade?: ConditionGrade;
+  url: string;
+  itemId?: string;
+  // listed price before FX conversion into the asking currency
+  originalPrice?: { amount: number; currency: string };
+  qualityScore?: number;
+  qualityWhy?: string[];
+  // points per ranking factor; sums to qualityScore
+  scoreBreakdown?: ScoreFactor[];
+};
+
+export type ScoreFactor = { factor: string; points: number; detail: string };
+
+// comp dropped by ranking or outlier rejection, and why
+export type CompExclusion = {
+  title: string;
+  url: string;
+  price: { amount: number; currency: string };
+  reason: string;
+  detail: string;
+};
+
+export type SoldComp = Comp & {
+  soldDate?: string;
+};
@@ -0,0 +1,39 @@
+import crypto from "crypto";
+
+export function sha256(input: string) {
+  return crypto.createHash("sha256").update(input).digest("hex");
+}
+
+export function normalize(s: string): string {
+  return (s || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// YYYY-MM-DD in Pacific time: the day eBay's API quotas (and the upstream budget) run on
+export function pacificDay(at = new Date()): string {
+  return at.toLocaleDateString("en-CA", { timeZone: "America/Los_Angeles" });
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i], i);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker()));
+  return out;
+}
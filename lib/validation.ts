@@ -0,0 +1,96 @@
+import type { AnalyzeRequest } from "./types";
+import type { ErrorCode, FieldIssue } from "./errors";
+import { supportedSourceIds } from "./sources";
+import { STATIC_FX_TABLE } from "./fx";
+import { marketplaceFromUrl } from "./marketplaces";
+import { validateFeeOverrides } from "./profit";
+
+/**
+ * ===== ANALYZE REQUEST SCHEMA =====
+ * Field-by-field checks; returns a normalized copy (trimmed strings, upper-case currency).
+ * requireListing=false is the pre-enrichment pass: an eBay itemId/url may stand in
+ * for title + price until the listing has been fetched.
+ */
+const MAX_PRICE = 10_000_000;
+const MAX_URL_LENGTH = 2048;
+
+const OPTIONAL_STRINGS: [keyof AnalyzeRequest, number][] = [
+  ["condition", 200],
+  ["brand", 100],
+  ["categoryHint", 300],
+  ["cacheBuster", 100],
+  ["debugPriceRaw", 200],
+];
+
+export function supportedCurrencies(): string[] {
+  return Object.keys(STATIC_FX_TABLE.rates);
+}
+
+export function validateAnalyzeFields(
+  raw: any,
+  opts: { requireListing: boolean }
+): { ok: true; body: AnalyzeRequest } | { ok: false; issues: FieldIssue[] } {
+  const issues: FieldIssue[] = [];
+  const issue = (field: string, code: ErrorCode, message: string) => issues.push({ field, code, message });
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, issues: [{ field: "body", code: "INVALID_REQUEST", message: "Body must be a JSON object." }] };
+  }
+
+  const body: any = { ...raw };
+
+  if (raw.source != null && !supportedSourceIds().includes(raw.source)) {
+    issue("source", "UNSUPPORTED_SOURCE", `source must be one of: ${supportedSourceIds().join(", ")}.`);
+  }
+
+  if (raw.url != null) {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof raw.url === "string" && raw.url.length <= MAX_URL_LENGTH ? new URL(raw.url.trim()) : null;
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || !/^https?:$/.test(parsed.protocol)) issue("url", "INVALID_URL", "url must be an http(s) URL.");
+    else body.url = raw.url.trim();
+  }
+
+  if (raw.itemId != null && (typeof raw.itemId !== "string" || !/^[A-Za-z0-9|_-]{1,64}$/.test(raw.itemId))) {
+    issue("itemId", "INVALID_REQUEST", "itemId must be a listing id string.");
+  }
+
+  if (!raw.url && !raw.itemId) issue("url", "INVALID_URL", "url (or itemId) is required.");
+
+  if (raw.title != null) {
+    if (typeof raw.title !== "string" || !raw.title.trim() || raw.title.length > 300) {
+      issue("title", "MISSING_TITLE", "title must be a non-empty string (max 300 characters).");
+    } else body.title = raw.title.trim();
+  } else if (opts.requireListing) issue("title", "MISSING_TITLE", "title is required.");
+
+  if (raw.price != null) {
+    const amount = raw.price?.amount;
+    // omitted on an eBay listing URL = that site's currency
+    const currency =
+      typeof raw.price?.currency === "string"
+        ? raw.price.currency.trim().toUpperCase()
+        : (typeof raw.url === "string" && marketplaceFromUrl(raw.url)?.currency) || "";
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0 || amount > MAX_PRICE) {
+      issue("price.amount", "INVALID_PRICE", `price.amount must be a number between 0 and ${MAX_PRICE}.`);
+    }
+    if (!/^[A-Z]{3}$/.test(currency) || !supportedCurrencies().includes(currency)) {
+      issue("price.currency", "INVALID_CURRENCY", "price.currency must be a supported ISO 4217 code (e.g. USD).");
+    }
+    body.price = { amount, currency };
+  } else if (opts.requireListing) issue("price", "INVALID_PRICE", "price { amount, currency } is required.");
+
+  for (const [field, max] of OPTIONAL_STRINGS) {
+    const v = raw[field];
+    if (v == null) continue;
+    if (typeof v !== "string" || v.length > max) issue(field, "INVALID_REQUEST", `${field} must be a string (max ${max}).`);
+    else body[field] = v.trim();
+  }
+
+  const feesError = validateFeeOverrides(raw.fees);
+  if (feesError) issue("fees", "INVALID_FEES", feesError);
+
+  return issues.length ? { ok: false, issues } : { ok: true, body: body as AnalyzeRequest };
+}
@@ -0,0 +1,758 @@
+import type { AnalyzeRequest, Comp, CompExclusion, ScoreFactor } from "./types";
+import type { ActiveCompsParams, SoldCompsParams, SourceAdapter } from "./sources";
+import type { SoldFetchResult } from "./sold";
+import { normalize } from "./util";
+import { siteKey } from "./marketplaces";
+import { bootstrapInterval, clamp, median, rejectOutliers, weightedMedian } from "./stats";
+import { convertComps, loadFxTable } from "./fx";
+import type { ListingAttributes } from "./attributes";
+import type { CategoryPlugin } from "./categories";
+import { categoryOf, compareReference, resolveCategory } from "./categories";
+import { conditionAdjustedPrice, gradeDistance, gradeLabel, gradeMix, resolveGrade } from "./condition";
+import { priceTrend, RECENCY_HALF_LIFE_DAYS, recencyWeight } from "./trend";
+import type { SellerSignals } from "./risk";
+import { assessRisk } from "./risk";
+import { searchSoldComps, soldQueryLadder } from "./strategy";
+import { explainHeuristicEstimate, explainSoldEstimate } from "./explain";
+import type { DealThresholds, ResolvedScoring, ScoringAssignment } from "./scoring";
+import { BUNDLED_ASSIGNMENT, dealScoreFromRatio, resolveScoring } from "./scoring";
+import type { SourceReport } from "./degraded";
+import type { UpstreamPriority } from "./budget";
+import type { CooldownStore } from "./stores";
+import { failureReport, isDegraded, isFailedStatus, soldReport } from "./degraded";
+
+/**
+ * ===== USER-FRIENDLY DEAL LABELS =====
+ */
+export type DealLabel = "great_deal" | "fair_price" | "overpriced";
+
+export function dealLabelFromRatio(ratio: number, thresholds: DealThresholds): DealLabel {
+  if (!Number.isFinite(ratio) || ratio <= 0) return "fair_price";
+  if (ratio <= thresholds.great_deal) return "great_deal";
+  if (ratio <= thresholds.fair_price) return "fair_price";
+  return "overpriced";
+}
+
+function dealLabelMeta(label: DealLabel): { title: string; emoji: string } {
+  switch (label) {
+    case "great_deal":
+      return { title: "Great deal", emoji: "🟢" };
+    case "fair_price":
+      return { title: "Fair price", emoji: "🟡" };
+    case "overpriced":
+      return { title: "Overpriced", emoji: "🔴" };
+  }
+}
+
+const RISK_BULLET = "Authenticity risk is high: check the listing carefully before treating this as a deal.";
+
+/**
+ * ===== QUERY CLEANING =====
+ */
+function cleanTitleForSearch(title: string, category: CategoryPlugin): string {
+  let t = (title || "").replace(/[^\w\s-]/g, " ").replace(/\s+/g, " ").trim();
+
+  const stopPhrases = [
+    "original",
+    "authentic",
+    "100% authentic",
+    "genuine",
+    "w/ all paperwork",
+    "with all paperwork",
+    "with paperwork",
+    "all paperwork",
+    "paperwork",
+    "receipt",
+    ...category.stopPhrases,
+    "box",
+    "tags",
+    "brand new",
+    "nwt",
+    "mint",
+    "rare",
+  ];
+
+  for (const s of stopPhrases) {
+    const re = new RegExp(`\\b${s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "gi");
+    t = t.replace(re, " ");
+  }
+  return t.replace(/\s+/g, " ").trim();
+}
+
+// A catalog model searches on brand + model + size, like the sold ladder, so other
+// listings of that model share the search (and its comps cache entry); otherwise
+// the cleaned title.
+function buildSearchQuery(body: AnalyzeRequest, attrs: ListingAttributes, category: CategoryPlugin): string {
+  const brand = (attrs.brand || "").trim();
+  const head = attrs.model ? [attrs.model, category.sizeKey(attrs)] : [cleanTitleForSearch(body.title || "", category)];
+
+  const parts: string[] = [];
+  if (brand) parts.push(`"${brand}"`);
+  for (const t of [...head, ...category.queryTerms(attrs)]) {
+    if (t && !parts.includes(`"${t}"`)) parts.push(`"${t}"`);
+  }
+
+  for (const n of category.searchNegatives) parts.push(`-"${n}"`);
+
+  return parts.join(" ").trim().slice(0, 300);
+}
+
+function buildBrowseFilter(_body: AnalyzeRequest): string {
+  return "";
+}
+
+/**
+ * ===== QUALITY / RANKING =====
+ */
+function tokenOverlapScore(tokens: string[], titleNorm: string, perHit = 0) {
+  let hits = 0;
+  for (const t of tokens) if (titleNorm.includes(t)) hits++;
+  return { hits, score: hits * perHit };
+}
+
+function priceClosenessScore(asking: number, compPrice: number, maxPoints: number) {
+  if (!Number.isFinite(asking) || asking <= 0 || !Number.isFinite(compPrice) || compPrice <= 0) return 0;
+  const r = compPrice / asking;
+  const dist = Math.abs(Math.log(r));
+  return Math.round(clamp(maxPoints * (1 - dist / 1.0), 0, maxPoints));
+}
+
+function isObviousJunkCompTitle(title: string, category: CategoryPlugin): boolean {
+  const t = normalize(title || "");
+  return category.junkTerms.some((j) => t.includes(normalize(j)));
+}
+
+function buildTargetSignals(body: AnalyzeRequest, attrs: ListingAttributes, category: CategoryPlugin) {
+  const titleNorm = normalize(body.title || "");
+  const brandNorm = normalize(attrs.brand || "");
+
+  const modelHint = normalize(attrs.model || "");
+
+  const coreTokens = titleNorm.split(" ").filter(Boolean).slice(0, 8);
+  const modelTokens = modelHint ? modelHint.split(" ").filter(Boolean) : [];
+  const brandTokens = brandNorm ? brandNorm.split(" ").filter(Boolean).slice(0, 3) : [];
+
+  return {
+    asking: body.price.amount,
+    askingCurrency: body.price.currency,
+    brand: brandNorm || "",
+    brandTokens,
+    modelHint,
+    modelTokens,
+    coreTokens,
+    attrs,
+    condition: resolveGrade(body.condition, body.title || ""),
+    negatives: category.penaltyTerms,
+  };
+}
+
+function rankAndFilterComps<T extends Comp>(
+  body: AnalyzeRequest,
+  attrs: ListingAttributes,
+  category: CategoryPlugin,
+  scoring: ResolvedScoring,
+  compsIn: T[]
+) {
+  const target = buildTargetSignals(body, attrs, category);
+  const w = scoring.weights;
+  const sizeKey = (a: ListingAttributes) => category.sizeKey(a);
+  const out: T[] = [];
+  const excluded: CompExclusion[] = [];
+
+  const exclude = (c: T, reason: string, detail: string) =>
+    excluded.push({ title: c.title, url: c.url, price: c.price, reason, detail });
+
+  for (const c of compsIn) {
+    const titleNorm = normalize(c.title || "");
+    const why: string[] = [];
+    const breakdown: ScoreFactor[] = [];
+    let score = 0;
+
+    // every score change goes through here, so the breakdown is the score
+    const add = (factor: string, points: number, detail: string, code: string | null = null) => {
+      score += points;
+      if (code) why.push(code);
+      breakdown.push({ factor, points, detail });
+    };
+
+    if (!c.url || !titleNorm) continue;
+    if (isObviousJunkCompTitle(c.title, category)) {
+      exclude(c, "junk_title", "Accessory, packaging or replica listing.");
+      continue;
+    }
+
+    const compAttrs = category.extractAttributes(c.title, "");
+    const compGrade = resolveGrade(c.condition, c.title).grade;
+
+    const asking = target.asking;
+    const p = Number(c.price?.amount || 0);
+    const guard = scoring.priceGuard;
+
+    if (Number.isFinite(asking) && asking >= guard.minAsking && Number.isFinite(p) && p > 0) {
+      if (p < asking * guard.minRatio) {
+        exclude(c, "price_guard", `Under ${Math.round(guard.minRatio * 100)}% of the asking price.`);
+        continue;
+      }
+      if (p > asking * guard.maxRatio) {
+        exclude(c, "price_guard", `Over ${guard.maxRatio}x the asking price.`);
+        continue;
+      }
+    }
+
+    const negHit = target.negatives.find((n) => titleNorm.includes(normalize(n)));
+    if (negHit) add("negative_term", w.negativeTerm, `Title contains "${negHit}".`, `neg:${negHit}`);
+
+    if (target.brand) {
+      if (titleNorm.includes(target.brand)) {
+        add("brand", w.brand, "Same brand.", "brand+");
+      } else if (target.brandTokens.length >= 2) {
+        const { hits } = tokenOverlapScore(target.brandTokens, titleNorm);
+        if (hits >= 1) add("brand", w.brandPartial, "Partial brand name match.", "brand~");
+      }
+    }
+
+    if (target.modelHint) {
+      if (compAttrs.model === attrs.model || titleNorm.includes(target.modelHint)) {
+        add("model", w.model, `Same model (${attrs.model}).`, "model+");
+      } else if (target.modelTokens.length) {
+        const { hits } = tokenOverlapScore(target.modelTokens, titleNorm);
+        if (hits >= 1) add("model", w.modelPartial, "Partial model name match.", "model~");
+      }
+    }
+
+    const refMatch = compareReference(attrs.reference, compAttrs.reference);
+    if (refMatch === "match") {
+      add("reference", w.reference, `Same reference (${attrs.reference}).`, "ref+");
+    } else if (refMatch === "mismatch") {
+      add("reference", w.referenceMismatch, `Different reference (${compAttrs.reference}).`, `ref!(${compAttrs.reference})`);
+    }
+
+    if (sizeKey(attrs)) {
+      const sizeMatch = category.compareSize(attrs, compAttrs);
+      if (sizeMatch === "match") {
+        add("size", w.sizeMatch, `Same size (${sizeKey(attrs)}).`, "size+");
+      } else if (sizeMatch === "mismatch") {
+        add("size", w.sizeMismatch, `Different size (${sizeKey(compAttrs)} vs ${sizeKey(attrs)}).`, `size!(${sizeKey(compAttrs)})`);
+      } else if (w.sizeUnknown) {
+        add("size", w.sizeUnknown, "Size not stated.", "size?");
+      }
+    }
+
+    if (attrs.material) {
+      const compMaterial = compAttrs.material;
+      if (compMaterial && compMaterial === attrs.material) {
+        add("material", w.material, `Same material (${attrs.material}).`, "leather+");
+      } else if (compMaterial && compMaterial !== attrs.material) {
+        add("material", w.materialMismatch, `Different material (${compMaterial}).`, `leather!(${compMaterial})`);
+      }
+    }
+
+    if (target.condition.grade && compGrade) {
+      const dist = gradeDistance(target.condition.grade, compGrade);
+      const detail = `${gradeLabel(compGrade)} vs ${gradeLabel(target.condition.grade)}.`;
+      if (dist === 0) add("condition", w.conditionMatch, detail, "cond+");
+      else if (dist === 1) add("condition", w.conditionNear, detail, "cond~");
+      else if (dist === 2) add("condition", w.conditionFar, detail, `cond!(${compGrade})`);
+      else add("condition", w.conditionMismatch, detail, `cond!(${compGrade})`);
+    }
+
+    const overlap = tokenOverlapScore(
+      Array.from(new Set([...(target.modelTokens || []), ...(target.coreTokens || [])])).slice(0, 8),
+      titleNorm,
+      w.titleOverlap
+    );
+    if (overlap.score) add("title_overlap", overlap.score, `${overlap.hits} title words in common.`);
+
+    // prices are already converted (lib/fx); just flag cross-currency comps
+    if (c.originalPrice?.currency) why.push(`fx(${c.originalPrice.currency})`);
+
+    const closeness = priceClosenessScore(target.asking, p, w.priceCloseness);
+    if (closeness) add("price_closeness", closeness, `${Math.round((p / target.asking) * 100)}% of the asking price.`);
+
+    const clamped = clamp(score, 0, 100);
+    if (clamped !== score) add("clamp", clamped - score, "Score kept within 0-100.");
+
+    if (score < scoring.minMatchScore) {
+      exclude(c, "low_quality", `Match score ${score} is under the ${scoring.minMatchScore} cutoff.`);
+      continue;
+    }
+
+    out.push({
+      ...c,
+      conditionGrade: compGrade || undefined,
+      qualityScore: score,
+      qualityWhy: why,
+      scoreBreakdown: breakdown,
+    });
+  }
+
+  out.sort((a, b) => (b.qualityScore || 0) - (a.qualityScore || 0));
+
+  // price outliers (restated in the target's condition) sit out the stats; quality is a weight, not a cut
+  const outliers = rejectOutliers(out.map((c) => conditionAdjustedPrice(c, target.condition.grade)));
+  const bounds = outliers.bounds
+    ? { low: Math.round(outliers.bounds.low), high: Math.round(outliers.bounds.high) }
+    : null;
+  for (const i of outliers.rejected) {
+    out[i] = { ...out[i], qualityWhy: [...(out[i].qualityWhy || []), "outlier"] };
+    exclude(out[i], "price_outlier", `Condition-adjusted price outside ${bounds?.low}-${bounds?.high} (${outliers.method}).`);
+  }
+  const usedForStats = outliers.kept.map((i) => out[i]);
+
+  return {
+    ranked: out,
+    usedForStats,
+    excluded,
+    outliers: { method: outliers.method, rejected: outliers.rejected.length, bounds },
+    debug: {
+      counts: { input: compsIn.length, kept: out.length, used: usedForStats.length, outliers: outliers.rejected.length },
+    },
+  };
+}
+
+// 45 (default cutoff) -> 0.2, 60 -> 0.36, 100 -> 1
+function qualityWeight(c: Comp): number {
+  return Math.pow(clamp(c.qualityScore || 0, 0, 100) / 100, 2);
+}
+
+/**
+ * Confidence => data coverage
+ */
+type DataCoverage = "strong" | "standard" | "limited";
+
+const COVERAGE_ORDER: DataCoverage[] = ["strong", "standard", "limited"];
+
+// one step down per relaxed query rung
+function relaxCoverage(coverage: DataCoverage, relaxation: number): DataCoverage {
+  const i = Math.min(COVERAGE_ORDER.indexOf(coverage) + relaxation, COVERAGE_ORDER.length - 1);
+  return COVERAGE_ORDER[i];
+}
+
+function coverageFromQuality(usedForStats: Comp[]): DataCoverage {
+  if (usedForStats.length >= 10) {
+    const avg = usedForStats.reduce((s, c) => s + (c.qualityScore || 0), 0) / usedForStats.length;
+    if (avg >= 78) return "strong";
+    if (avg >= 68) return "standard";
+    return "limited";
+  }
+  if (usedForStats.length >= 7) return "standard";
+  return "limited";
+}
+
+/**
+ * ===== COMP FETCHERS =====
+ * Indirection over the source adapter so a batch can share identical fetches.
+ */
+export type CompFetchers = {
+  active(source: SourceAdapter, params: ActiveCompsParams): Promise<Comp[]>;
+  sold(source: SourceAdapter, params: SoldCompsParams): Promise<SoldFetchResult>;
+};
+
+export const directCompFetchers: CompFetchers = {
+  active: (source, params) => source.fetchActiveComps(params),
+  sold: (source, params) => source.fetchSoldComps(params),
+};
+
+// Memoized per (source, marketplace, query, window); in-flight promises are shared too
+export function createSharedCompFetchers(): CompFetchers {
+  const memo = new Map<string, Promise<any>>();
+
+  function once<T>(key: string, run: () => Promise<T>): Promise<T> {
+    if (!memo.has(key)) memo.set(key, run());
+    return memo.get(key) as Promise<T>;
+  }
+
+  return {
+    active: (source, p) =>
+      once(`active:${source.id}:${siteKey(p)}:${p.currency}:${p.filter}:${p.limit}:${p.query}`, () =>
+        source.fetchActiveComps(p)
+      ),
+    sold: (source, p) =>
+      once(`sold:${source.id}:${siteKey(p)}:${p.currency}:${p.daysBack}:${p.limit}:${p.query}`, () =>
+        source.fetchSoldComps(p)
+      ),
+  };
+}
+
+// stamps the caller's upstream-budget priority (and budget store) on every comp fetch
+export function withUpstreamPriority(
+  fetchers: CompFetchers,
+  priority: UpstreamPriority,
+  cooldowns?: CooldownStore
+): CompFetchers {
+  return {
+    active: (source, p) => fetchers.active(source, { ...p, priority, cooldowns }),
+    sold: (source, p) => fetchers.sold(source, { ...p, priority, cooldowns }),
+  };
+}
+
+/**
+ * ===== VALUATION PIPELINE =====
+ * Fetch -> rank -> stats -> deal payload (everything except user/cache/credits).
+ */
+export async function computeValuation(
+  body: AnalyzeRequest,
+  source: SourceAdapter,
+  fetchers: CompFetchers = directCompFetchers,
+  seller: SellerSignals | null = null,
+  scoringAssignment: ScoringAssignment = BUNDLED_ASSIGNMENT,
+  // routes pass the category they validated; watchlist rows saved before categories
+  // existed resolve to none and are valued as bags
+  category: CategoryPlugin = resolveCategory(body) || categoryOf({})
+): Promise<any> {
+  // 3) Build query + filters (sold queries come from the strategy ladder)
+  const attributes = category.extractAttributes(body.title || "", body.brand || "");
+  const activeQuery = buildSearchQuery(body, attributes, category);
+  const { marketplaceId, locale } = source.parseUrl(body.url);
+  const scoring = resolveScoring(
+    scoringAssignment,
+    { category: category.id, brand: attributes.brand, marketplaceId },
+    category.weights
+  );
+  const filter = buildBrowseFilter(body);
+  const fxTable = await loadFxTable();
+  const fxRates: Record<string, number> = {};
+  let fxDropped = 0;
+
+  // ---------------------------
+  // A) ACTIVE comps ALWAYS (for potential resale value)
+  // ---------------------------
+  let activeAll: Comp[] = [];
+  let activeReport: SourceReport;
+  try {
+    activeAll = await fetchers.active(source, {
+      query: activeQuery,
+      limit: 100,
+      marketplaceId,
+      locale,
+      currency: body.price.currency,
+      filter,
+    });
+    activeReport = { status: activeAll.length ? "ok" : "empty" };
+  } catch (e: any) {
+    console.error("active comps failed:", e?.message || String(e));
+    activeAll = [];
+    activeReport = failureReport(e);
+  }
+
+  const activeFx = convertComps(activeAll, body.price.currency, fxTable);
+  Object.assign(fxRates, activeFx.rates);
+  fxDropped += activeFx.dropped;
+
+  const activeRanked = rankAndFilterComps(body, attributes, category, scoring, activeFx.comps);
+  const activeUsedForStats = activeRanked.usedForStats.filter((c) => Number.isFinite(c.price.amount) && c.price.amount > 0);
+  const activeMed = activeUsedForStats.length
+    ? weightedMedian(
+        activeUsedForStats.map((c) => c.price.amount),
+        activeUsedForStats.map(qualityWeight)
+      )
+    : null;
+
+  // ---------------------------
+  // B) SOLD comps ONLY (for average market value)
+  // ---------------------------
+  // Query ladder x lookback windows (lib/strategy); each step runs the provider chain
+  const soldSearch = await searchSoldComps(
+    soldQueryLadder(body, attributes, category),
+    (query, daysBack) =>
+      fetchers.sold(source, { query, limit: 100, marketplaceId, locale, currency: body.price.currency, daysBack }),
+    (comps) => {
+      const fx = convertComps(comps, body.price.currency, fxTable);
+      return { fx, ...rankAndFilterComps(body, attributes, category, scoring, fx.comps) };
+    },
+    scoring
+  );
+
+  const soldAll = soldSearch.sold.comps;
+  const soldQuery = soldSearch.rung.query;
+  const soldProvider = soldSearch.sold.provider;
+  const soldCooldownActive = soldSearch.cooldownActive;
+  const soldDiagnostics = soldSearch.attempts;
+  const soldCompsCountBestAttempt = soldAll.length;
+  const finalSoldWindowDays = soldSearch.daysBack;
+
+  Object.assign(fxRates, soldSearch.evaluated.fx.rates);
+  fxDropped += soldSearch.evaluated.fx.dropped;
+
+  const soldRanked = soldSearch.evaluated;
+
+  const sources = { active: activeReport, sold: soldReport(soldSearch.attempts, soldAll.length) };
+  const degraded = isDegraded(sources);
+  const soldCompsForUI = soldRanked.ranked.slice(0, 12);
+
+  const soldCompsFound = soldAll.length;
+  const soldKeptAfterFiltering = soldRanked.debug.counts.kept;
+  const soldCompsUsed = soldRanked.debug.counts.used;
+
+  // 5) Build payload
+  let payload: any;
+
+  const targetCondition = resolveGrade(body.condition, body.title || "");
+  const soldTrend = priceTrend(soldRanked.ranked);
+
+  if (soldRanked.usedForStats.length >= 4) {
+    const rawPrices = soldRanked.usedForStats.map((c) => c.price.amount).filter((n) => Number.isFinite(n) && n > 0);
+    // each comp restated in the target's condition, weighted by match quality and how recently it sold
+    const adjusted = soldRanked.usedForStats
+      .map((c) => ({
+        comp: c,
+        price: conditionAdjustedPrice(c, targetCondition.grade),
+        weight: qualityWeight(c) * recencyWeight(c),
+      }))
+      .filter((x) => Number.isFinite(x.price) && x.price > 0);
+    const prices = adjusted.map((x) => x.price);
+    const weights = adjusted.map((x) => x.weight);
+
+    const rawMed = median(rawPrices);
+    const conditionMed = median(prices);
+    const med = weightedMedian(prices, weights);
+    // range = bootstrap interval of the weighted median
+    const interval = bootstrapInterval(prices, weights);
+    const low = interval ? Math.min(interval.low, med) : med;
+    const high = interval ? Math.max(interval.high, med) : med;
+
+    const asking = body.price.amount;
+    const ratio = asking / med;
+
+    const score = dealScoreFromRatio(scoring.dealScore.sold, ratio);
+    const label = dealLabelFromRatio(ratio, scoring.dealThresholds);
+    const { title: labelTitle, emoji: labelEmoji } = dealLabelMeta(label);
+    const risk = assessRisk({ body, attrs: attributes, soldMedian: med, seller });
+
+    const coverage = relaxCoverage(coverageFromQuality(soldRanked.usedForStats), soldSearch.rung.relaxation);
+    const relaxedBullet =
+      soldSearch.rung.relaxation > 0
+        ? `Sold search was broadened to ${soldSearch.rung.level} to find enough comps; confidence lowered.`
+        : null;
+
+    const conditionAdjustmentPct =
+      rawMed > 0 ? Number((((conditionMed - rawMed) / rawMed) * 100).toFixed(1)) : 0;
+    const recencyAdjustmentPct =
+      conditionMed > 0 ? Number((((med - conditionMed) / conditionMed) * 100).toFixed(1)) : 0;
+    const conditionBullet =
+      targetCondition.grade && Math.abs(conditionAdjustmentPct) >= 1
+        ? `Condition (${gradeLabel(targetCondition.grade)}) moved the estimate ${conditionAdjustmentPct > 0 ? "+" : ""}${conditionAdjustmentPct}% vs comps as listed.`
+        : null;
+
+    const explanation = explainSoldEstimate({
+      label,
+      ratio: Number(ratio.toFixed(3)),
+      thresholds: scoring.dealThresholds,
+      asking,
+      currency: body.price.currency,
+      marketValue: med,
+      low,
+      high,
+      fetched: soldCompsFound,
+      ranked: soldRanked.ranked.length,
+      used: adjusted,
+      excluded: soldRanked.excluded,
+      conditionGrade: targetCondition.grade,
+      conditionAdjustmentPct,
+      weightingAdjustmentPct: recencyAdjustmentPct,
+      interval,
+      outliers: soldRanked.outliers,
+      relaxation: { level: soldSearch.rung.level, steps: soldSearch.rung.relaxation },
+      fx: { converted: soldRanked.ranked.filter((c) => c.originalPrice).length, dropped: soldSearch.evaluated.fx.dropped },
+      risk,
+    });
+
+    payload = {
+      deal: {
+        label,
+        labelTitle,
+        labelEmoji,
+        score,
+        ratio: Number(ratio.toFixed(3)),
+        explanationBullets: [
+          `Asking price vs SOLD median: ${(ratio * 100).toFixed(0)}%`,
+          "Quality ranking filters accessories/replicas and prioritizes close model/size matches.",
+          ...(conditionBullet ? [conditionBullet] : []),
+          ...(relaxedBullet ? [relaxedBullet] : []),
+          ...(risk.level === "high" ? [RISK_BULLET] : []),
+        ],
+      },
+      risk,
+      degraded,
+      sources,
+      explanation,
+      estimate: {
+        marketValue: { amount: Math.round(med), currency: body.price.currency },
+        range: {
+          low: { amount: Math.round(low), currency: body.price.currency },
+          high: { amount: Math.round(high), currency: body.price.currency },
+        },
+        confidence: coverage,
+        method: `sold-comps-robust-median-${finalSoldWindowDays}`,
+        recency: {
+          halfLifeDays: RECENCY_HALF_LIFE_DAYS,
+          unweightedMedian: { amount: Math.round(conditionMed), currency: body.price.currency },
+          adjustmentPct: recencyAdjustmentPct,
+        },
+        stats: {
+          sample: prices.length,
+          weighting: "quality*recency",
+          outliers: soldRanked.outliers,
+          interval: interval ? { level: interval.level, bootstrapIterations: interval.iterations } : null,
+        },
+      },
+      resale: {
+        potentialValue: activeMed != null ? { amount: Math.round(activeMed), currency: body.price.currency } : null,
+        count: activeAll.length,
+        method: "active-comps-weighted-median",
+      },
+      attributes,
+      condition: {
+        grade: targetCondition.grade,
+        from: targetCondition.from,
+        compsGradeMix: gradeMix(soldRanked.usedForStats),
+        adjustmentPct: conditionAdjustmentPct,
+      },
+      trend: soldTrend,
+      comps: soldCompsForUI,
+      fx: {
+        currency: body.price.currency,
+        rates: fxRates,
+        asOf: fxTable.asOf,
+        source: fxTable.source,
+        droppedComps: fxDropped,
+      },
+      meta: {
+        backendVersion: "sold-market-active-resale-v3",
+        sold: {
+          daysWindow: finalSoldWindowDays,
+          compsCount: soldCompsFound,
+          soldCompsCountBestAttempt,
+          cooldownActive: soldCooldownActive,
+          provider: soldProvider,
+          strategy: {
+            level: soldSearch.rung.level,
+            relaxation: soldSearch.rung.relaxation,
+            attempts: soldSearch.attempts.length,
+            satisfied: soldSearch.satisfied,
+          },
+        },
+        active: { compsCount: activeAll.length },
+        soldDiagnostics,
+        activeQuery,
+        soldQuery,
+        source: source.id,
+        category: category.id,
+        scoring: { version: scoring.version, variant: scoring.variant, overrides: scoring.applied },
+        marketplaceId,
+        filter,
+        soldCompsFound,
+        soldKeptAfterFiltering,
+        soldCompsUsed,
+        activeCompsFound: activeAll.length,
+      },
+    };
+  } else {
+    const asking = body.price.amount;
+    const est = asking * 0.93;
+    const low = asking * 0.84;
+    const high = asking * 1.02;
+
+    const ratio = asking / est;
+
+    const score = dealScoreFromRatio(scoring.dealScore.heuristic, ratio);
+    const label = dealLabelFromRatio(ratio, scoring.dealThresholds);
+    const { title: labelTitle, emoji: labelEmoji } = dealLabelMeta(label);
+    const risk = assessRisk({ body, attrs: attributes, soldMedian: null, seller });
+    const explanation = explainHeuristicEstimate({
+      label,
+      ratio: Number(ratio.toFixed(3)),
+      thresholds: scoring.dealThresholds,
+      asking,
+      currency: body.price.currency,
+      marketValue: est,
+      fetched: soldCompsFound,
+      ranked: soldRanked.ranked.length,
+      usable: soldRanked.usedForStats.length,
+      excluded: soldRanked.excluded,
+      windowDays: finalSoldWindowDays,
+      risk,
+    });
+
+    payload = {
+      deal: {
+        label,
+        labelTitle,
+        labelEmoji,
+        score,
+        ratio: Number(ratio.toFixed(3)),
+        explanationBullets: [
+          isFailedStatus(sources.sold.status)
+            ? "Sold data was unavailable (eBay error); estimate uses heuristics."
+            : `Sold comps were limited (lookback: ${finalSoldWindowDays} days); estimate uses heuristics.`,
+          ...(risk.level === "high" ? [RISK_BULLET] : []),
+        ],
+      },
+      risk,
+      degraded,
+      sources,
+      explanation,
+      estimate: {
+        marketValue: { amount: Math.round(est), currency: body.price.currency },
+        range: {
+          low: { amount: Math.round(low), currency: body.price.currency },
+          high: { amount: Math.round(high), currency: body.price.currency },
+        },
+        confidence: "limited",
+        method: "limited-sold-signals",
+      },
+      resale: {
+        potentialValue: activeMed != null ? { amount: Math.round(activeMed), currency: body.price.currency } : null,
+        count: activeAll.length,
+        method: "active-comps-weighted-median",
+      },
+      attributes,
+      condition: {
+        grade: targetCondition.grade,
+        from: targetCondition.from,
+        compsGradeMix: gradeMix(soldRanked.usedForStats),
+        adjustmentPct: 0,
+      },
+      trend: soldTrend,
+      comps: soldCompsForUI,
+      fx: {
+        currency: body.price.currency,
+        rates: fxRates,
+        asOf: fxTable.asOf,
+        source: fxTable.source,
+        droppedComps: fxDropped,
+      },
+      meta: {
+        backendVersion: "sold-market-active-resale-v3",
+        sold: {
+          daysWindow: finalSoldWindowDays,
+          compsCount: soldCompsFound,
+          soldCompsCountBestAttempt,
+          cooldownActive: soldCooldownActive,
+          provider: soldProvider,
+          strategy: {
+            level: soldSearch.rung.level,
+            relaxation: soldSearch.rung.relaxation,
+            attempts: soldSearch.attempts.length,
+            satisfied: soldSearch.satisfied,
+          },
+        },
+        active: { compsCount: activeAll.length },
+        soldDiagnostics,
+        activeQuery,
+        soldQuery,
+        source: source.id,
+        category: category.id,
+        scoring: { version: scoring.version, variant: scoring.variant, overrides: scoring.applied },
+        marketplaceId,
+        filter,
+        soldCompsFound,
+        soldKeptAfterFiltering,
+        soldCompsUsed,
+        activeCompsFound: activeAll.length,
+      },
+    };
+  }
+
+  return payload;
+}
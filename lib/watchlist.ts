@@ -0,0 +1,304 @@
+import crypto from "crypto";
+import type { AnalyzeRequest } from "./types";
+import { supabase } from "./supabase";
+import { getSourceAdapter } from "./sources";
+import type { CompFetchers } from "./valuation";
+import { computeValuation, withUpstreamPriority } from "./valuation";
+import { recordPriceHistory } from "./history";
+import { enrichAnalyzeRequest } from "./enrich";
+import { assignScoringConfig } from "./scoring";
+import { postToPinnedUrl, resolvePublicHttpsUrl } from "./egress";
+import { priorityForPlan } from "./budget";
+import type { Stores, UserRow } from "./stores";
+import { debitCredits, planFor, refundCredits } from "./credits";
+import type { ErrorCode } from "./errors";
+import { defaultStores } from "./stores";
+
+/**
+ * ===== WATCHLIST (watchlist + watchlist_events tables) =====
+ */
+const WATCHLIST_WEBHOOK_URL = process.env.WATCHLIST_WEBHOOK_URL || "";
+const WATCHLIST_WEBHOOK_SECRET = process.env.WATCHLIST_WEBHOOK_SECRET || "";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export const MAX_WATCHES_PER_DEVICE = 50;
+
+export type WatchRow = {
+  id: number;
+  device_id: string;
+  request_json: AnalyzeRequest;
+  webhook_url: string | null;
+  last_label: string | null;
+  last_ratio: number | null;
+  last_price: number | null;
+  last_market_value: number | null;
+  last_checked_at: string | null;
+  listing_key: string;
+  created_at: string;
+};
+
+export async function listWatches(deviceId: string): Promise<WatchRow[]> {
+  const { data, error } = await supabase
+    .from("watchlist")
+    .select("*")
+    .eq("device_id", deviceId)
+    .eq("active", true)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as WatchRow[];
+}
+
+/**
+ * One watch per listing: the eBay item id when there is one (an itemId-only
+ * request may still have no URL), else the URL. Mirrored by the backfill in
+ * migration 20261019001200.
+ */
+export function watchListingKey(body: AnalyzeRequest): string {
+  if ((body.source || "ebay") === "ebay") {
+    // RESTful ids (v1|<legacy>|0) and URLs both reduce to the legacy id
+    const itemId =
+      String(body.itemId || "").split("|")[1] || body.itemId || getSourceAdapter("ebay")?.parseUrl(body.url || "").itemId;
+    if (itemId) return `ebay:${itemId}`;
+  }
+  return `url:${body.url}`;
+}
+
+/**
+ * Same device + listing updates the stored request (e.g. a new asking price).
+ */
+export async function upsertWatch(deviceId: string, body: AnalyzeRequest, webhookUrl: string | null): Promise<WatchRow> {
+  const { data, error } = await supabase
+    .from("watchlist")
+    .upsert(
+      {
+        device_id: deviceId,
+        url: body.url || null,
+        listing_key: watchListingKey(body),
+        request_json: body,
+        webhook_url: webhookUrl,
+        active: true,
+      },
+      { onConflict: "device_id,listing_key" }
+    )
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data as WatchRow;
+}
+
+// false when the device has no such watch
+export async function removeWatch(deviceId: string, id: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("watchlist")
+    .update({ active: false })
+    .eq("device_id", deviceId)
+    .eq("id", id)
+    .select("id");
+  if (error) throw error;
+  return !!data?.length;
+}
+
+export async function dueWatches(limit: number): Promise<WatchRow[]> {
+  const { data, error } = await supabase
+    .from("watchlist")
+    .select("*")
+    .eq("active", true)
+    .order("last_checked_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as WatchRow[];
+}
+
+/**
+ * ===== RE-EVALUATION =====
+ */
+export type WatchCheckResult = {
+  watchId: number;
+  label: string | null;
+  ratio: number | null;
+  alerts: ("great_deal" | "price_drop")[];
+  notified: boolean;
+  // not re-valued, e.g. CREDITS_EXHAUSTED
+  error?: ErrorCode;
+  degraded?: boolean;
+};
+
+async function touchWatch(id: number) {
+  const { error } = await supabase.from("watchlist").update({ last_checked_at: new Date().toISOString() }).eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * A re-check is a valuation: it spends the owner's allowance / credits like
+ * /analyze, and is refunded when it fails or only produced a degraded estimate.
+ * Out of credits = skipped until the next run.
+ */
+export async function checkWatch(
+  watch: WatchRow,
+  fetchers: CompFetchers,
+  stores: Stores = defaultStores()
+): Promise<WatchCheckResult> {
+  const owner = await stores.users.getOrCreate(watch.device_id);
+  const debit = await debitCredits(
+    owner,
+    { cost: planFor(owner.plan).analysisCost, reason: "watch_check", ref: `watch:${watch.id}` },
+    stores.users
+  );
+  if (!debit.ok) {
+    await touchWatch(watch.id);
+    return {
+      watchId: watch.id,
+      label: watch.last_label,
+      ratio: watch.last_ratio,
+      alerts: [],
+      notified: false,
+      error: "CREDITS_EXHAUSTED",
+    };
+  }
+
+  let result: WatchCheckResult | null = null;
+  try {
+    result = await revalueWatch(watch, owner, fetchers, stores);
+    return result;
+  } finally {
+    if ((!result || result.degraded) && debit.ledgerId != null) await refundCredits(debit.ledgerId, stores.users);
+  }
+}
+
+async function revalueWatch(
+  watch: WatchRow,
+  owner: UserRow,
+  fetchers: CompFetchers,
+  stores: Stores
+): Promise<WatchCheckResult> {
+  // the owner's plan decides whether these calls may use the paid reserve
+  const priority = priorityForPlan(owner.plan);
+
+  // eBay watches pick up the listing's current price
+  const { body, enrichment } = await enrichAnalyzeRequest(watch.request_json, priority, stores);
+  const source = getSourceAdapter(body.source);
+  if (!source) throw new Error(`Unsupported source: ${body.source}`);
+
+  // same scoring arm the device gets from /analyze
+  const scoring = await assignScoringConfig(watch.device_id);
+  const payload = await computeValuation(
+    body,
+    source,
+    withUpstreamPriority(fetchers, priority, stores.cooldowns),
+    enrichment?.listing?.seller || null,
+    scoring
+  );
+  const label = payload.deal.label as string;
+  const ratio = Number(payload.deal.ratio);
+  const price = body.price.amount;
+  const marketValue = payload.estimate.marketValue.amount;
+
+  // an estimate built while eBay was failing would fire false alerts; retry next run
+  if (payload.degraded) {
+    await touchWatch(watch.id);
+    return { watchId: watch.id, label, ratio, alerts: [], notified: false, degraded: true };
+  }
+
+  if (String(payload.estimate?.method || "").startsWith("sold-comps")) {
+    await recordPriceHistory({
+      attributes: payload.attributes,
+      condition: payload.condition?.grade ?? null,
+      marketplaceId: payload.meta.marketplaceId,
+      source: source.id,
+      estimate: payload.estimate,
+    });
+  }
+
+  const alerts: WatchCheckResult["alerts"] = [];
+  if (label === "great_deal" && watch.last_label !== "great_deal") alerts.push("great_deal");
+  if (watch.last_price != null && price < watch.last_price) alerts.push("price_drop");
+
+  const changed = label !== watch.last_label || ratio !== watch.last_ratio || price !== watch.last_price;
+
+  let notified = false;
+  if (alerts.length) {
+    notified = await fireWebhook(watch.webhook_url || WATCHLIST_WEBHOOK_URL, !!watch.webhook_url, {
+      event: "watchlist.deal_alert",
+      alerts,
+      watchId: watch.id,
+      deviceId: watch.device_id,
+      listing: { url: body.url, title: body.title, price: body.price },
+      deal: { label, ratio, previousLabel: watch.last_label, previousRatio: watch.last_ratio },
+      previousPrice: watch.last_price,
+      marketValue: payload.estimate.marketValue,
+      risk: payload.risk,
+    });
+  }
+
+  if (changed || alerts.length) {
+    const { error } = await supabase.from("watchlist_events").insert({
+      watch_id: watch.id,
+      label,
+      ratio,
+      price,
+      market_value: marketValue,
+      previous_label: watch.last_label,
+      previous_ratio: watch.last_ratio,
+      previous_price: watch.last_price,
+      alerts,
+      notified,
+    });
+    if (error) console.error("watchlist_events write failed:", error.message);
+  }
+
+  const { error } = await supabase
+    .from("watchlist")
+    .update({
+      last_label: label,
+      last_ratio: ratio,
+      last_price: price,
+      last_market_value: marketValue,
+      last_checked_at: new Date().toISOString(),
+    })
+    .eq("id", watch.id);
+  if (error) throw error;
+
+  return { watchId: watch.id, label, ratio, alerts, notified };
+}
+
+/**
+ * POST JSON; signed with HMAC-SHA256 in X-Webhook-Signature when a secret is set.
+ * User-supplied URLs are re-checked against lib/egress and called on the checked
+ * address; redirects are not followed.
+ */
+async function fireWebhook(url: string, userSupplied: boolean, event: any): Promise<boolean> {
+  if (!url) return false;
+
+  const pinned = userSupplied ? await resolvePublicHttpsUrl(url) : null;
+  if (pinned?.problem) {
+    console.error(`watchlist webhook refused: ${pinned.problem}`);
+    return false;
+  }
+
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (WATCHLIST_WEBHOOK_SECRET) {
+    headers["X-Webhook-Signature"] = crypto.createHmac("sha256", WATCHLIST_WEBHOOK_SECRET).update(body).digest("hex");
+  }
+
+  try {
+    const status = pinned?.target
+      ? await postToPinnedUrl(pinned.target, headers, body, WEBHOOK_TIMEOUT_MS)
+      : (
+          await fetch(url, {
+            method: "POST",
+            headers,
+            body,
+            redirect: "manual",
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+          })
+        ).status;
+    const ok = status >= 200 && status < 300;
+    if (!ok) console.error(`watchlist webhook error (${status})`);
+    return ok;
+  } catch (e: any) {
+    console.error("watchlist webhook failed:", e?.message || String(e));
+    return false;
+  }
+}
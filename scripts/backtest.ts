@@ -0,0 +1,319 @@
+import fs from "fs";
+import path from "path";
+import type { ScoringAssignment } from "../lib/scoring";
+
+/**
+ * ===== VALUATION BACKTEST =====
+ * Replays a labeled corpus through validation + the valuation pipeline against
+ * recorded eBay responses (lib/replay) and scores the estimates against known
+ * sale prices.
+ *
+ *   npm run backtest -- --corpus corpus.jsonl [--fixtures fixtures/ebay]
+ *     [--record] [--scoring candidate.json] [--as-of 2026-10-19]
+ *     [--out report.json] [--baseline baseline.json]
+ *
+ * Corpus, one JSON object per line:
+ *   { "id": "lv-neverfull-1", "request": <analyze body>,
+ *     "soldPrice": { "amount": 1450, "currency": "USD" }, "label": "fair_price" }
+ * `label` is optional; by default it is the label the sale price itself earns
+ * under the run's thresholds.
+ *
+ * Fixtures, one file per eBay call, <service>-<key>.json (EbayFixture in lib/replay):
+ *   { "key", "service", "request": <canonical request the key hashes>,
+ *     "recordedAt", "status", "body": <raw response text> }
+ *
+ * fixtures/sample holds six listings across the four categories, with synthetic
+ * eBay responses: made-up prices, not market data. They show the formats and
+ * check that the script runs:
+ *   npm run backtest -- --corpus fixtures/sample/corpus.jsonl --fixtures fixtures/sample/ebay
+ *
+ * --record calls eBay (EBAY_CLIENT_ID / EBAY_CLIENT_SECRET) and saves fixtures;
+ * without it nothing leaves the machine. Replays pin the clock to the newest
+ * fixture so recency weights match the day the comps were recorded.
+ * --scoring takes a scoring_configs-shaped file ({ version, defaults, overrides }).
+ */
+type CorpusEntry = {
+  id: string;
+  request: any;
+  soldPrice: { amount: number; currency: string };
+  label?: string;
+};
+
+type ListingResult = {
+  id: string;
+  error: string | null;
+  method: string | null;
+  soldComps: boolean;
+  degraded: boolean;
+  estimate: number | null;
+  range: { low: number; high: number } | null;
+  soldPrice: number;
+  currency: string;
+  // absolute percentage error
+  ape: number | null;
+  label: string | null;
+  expectedLabel: string | null;
+};
+
+type Metrics = {
+  listings: number;
+  errors: number;
+  degraded: number;
+  // % of listings valued from sold comps (not the asking-price heuristic)
+  coverage: number;
+  // sold-comps estimates only / every estimate
+  mape: number | null;
+  mapeAll: number | null;
+  // % of sold-comps estimates whose range contains the sale price
+  rangeHitRate: number | null;
+  labelAccuracy: number | null;
+};
+
+type Report = {
+  generatedAt: string;
+  asOf: string;
+  corpus: string;
+  fixtures: string;
+  mode: "record" | "replay";
+  scoring: string;
+  metrics: Metrics;
+  listings: ListingResult[];
+};
+
+const APE_CHANGE_SHOWN = 5;
+const CHANGES_SHOWN = 20;
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next != null && !next.startsWith("--")) {
+      args[argv[i].slice(2)] = next;
+      i++;
+    } else {
+      args[argv[i].slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+function readCorpus(file: string): CorpusEntry[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l, i) => {
+      const entry = JSON.parse(l);
+      if (!entry?.request || !Number.isFinite(Number(entry?.soldPrice?.amount))) {
+        throw new Error(`${file}:${i + 1}: needs "request" and "soldPrice.amount"`);
+      }
+      return { ...entry, id: String(entry.id ?? i + 1) } as CorpusEntry;
+    });
+}
+
+// newest recordedAt among the fixtures, else now
+function fixturesAsOf(dir: string): string {
+  if (!fs.existsSync(dir)) return new Date().toISOString();
+  let newest = "";
+  for (const f of fs.readdirSync(dir)) {
+    if (!f.endsWith(".json")) continue;
+    const at = JSON.parse(fs.readFileSync(path.join(dir, f), "utf8"))?.recordedAt || "";
+    if (at > newest) newest = at;
+  }
+  return newest || new Date().toISOString();
+}
+
+const pct = (n: number, d: number) => (d ? Number(((n / d) * 100).toFixed(1)) : null);
+const mean = (xs: number[]) => (xs.length ? Number((xs.reduce((s, x) => s + x, 0) / xs.length).toFixed(1)) : null);
+
+function computeMetrics(results: ListingResult[]): Metrics {
+  const valued = results.filter((r) => r.estimate != null);
+  const sold = valued.filter((r) => r.soldComps);
+  const labelled = results.filter((r) => r.label && r.expectedLabel);
+  return {
+    listings: results.length,
+    errors: results.filter((r) => r.error).length,
+    degraded: results.filter((r) => r.degraded).length,
+    coverage: pct(sold.length, results.length) ?? 0,
+    mape: mean(sold.map((r) => r.ape as number)),
+    mapeAll: mean(valued.map((r) => r.ape as number)),
+    rangeHitRate: pct(
+      sold.filter((r) => r.range && r.soldPrice >= r.range.low && r.soldPrice <= r.range.high).length,
+      sold.length
+    ),
+    labelAccuracy: pct(labelled.filter((r) => r.label === r.expectedLabel).length, labelled.length),
+  };
+}
+
+function printMetrics(metrics: Metrics, baseline: Metrics | null) {
+  const rows = Object.keys(metrics) as (keyof Metrics)[];
+  const cell = (v: any) => String(v ?? "-").padStart(10);
+  console.log(`\n${"metric".padEnd(16)}${cell("run")}${baseline ? cell("baseline") + cell("delta") : ""}`);
+  for (const k of rows) {
+    const v = metrics[k];
+    const b = baseline ? baseline[k] : null;
+    const delta = v != null && b != null ? Number((v - b).toFixed(1)) : null;
+    const signed = delta == null ? null : `${delta > 0 ? "+" : ""}${delta}`;
+    console.log(`${k.padEnd(16)}${cell(v)}${baseline ? cell(b) + cell(signed) : ""}`);
+  }
+}
+
+// listings whose label flipped or whose error moved by APE_CHANGE_SHOWN+ points
+function printChanges(results: ListingResult[], baseline: ListingResult[]) {
+  const before = new Map(baseline.map((r) => [r.id, r]));
+  const changes: { r: ListingResult; b: ListingResult; apeDelta: number | null }[] = [];
+  for (const r of results) {
+    const b = before.get(r.id);
+    if (!b) continue;
+    const apeDelta = r.ape != null && b.ape != null ? r.ape - b.ape : null;
+    if (r.label !== b.label || (apeDelta != null && Math.abs(apeDelta) >= APE_CHANGE_SHOWN)) {
+      changes.push({ r, b, apeDelta });
+    }
+  }
+  changes.sort((x, y) => Math.abs(y.apeDelta ?? 0) - Math.abs(x.apeDelta ?? 0));
+
+  if (!changes.length) return console.log("\nNo listing changed against the baseline.");
+  console.log(`\nChanged listings (${changes.length}):`);
+  for (const { r, b, apeDelta } of changes.slice(0, CHANGES_SHOWN)) {
+    const label = r.label !== b.label ? ` label ${b.label} -> ${r.label} (expected ${r.expectedLabel})` : "";
+    const ape = apeDelta ? ` ape ${b.ape}% -> ${r.ape}%` : "";
+    console.log(`  ${r.id}:${label}${ape}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const corpusFile = typeof args.corpus === "string" ? args.corpus : "";
+  if (!corpusFile) {
+    console.error("usage: npm run backtest -- --corpus corpus.jsonl [--fixtures dir] [--record] [--scoring file] [--as-of date] [--out file] [--baseline file]");
+    process.exit(2);
+  }
+
+  const mode = args.record ? "record" : "replay";
+  const fixtures = path.resolve(typeof args.fixtures === "string" ? args.fixtures : "fixtures/ebay");
+  process.env.EBAY_FIXTURES = mode;
+  process.env.EBAY_FIXTURES_DIR = fixtures;
+  // stored sold history depends on whatever the database holds today
+  process.env.SOLD_PROVIDERS = process.env.SOLD_PROVIDERS || "finding,insights";
+  if (mode === "replay") {
+    // lib/* reads these at import; replays never use them
+    process.env.EBAY_CLIENT_ID = process.env.EBAY_CLIENT_ID || "replay";
+    process.env.EBAY_CLIENT_SECRET = process.env.EBAY_CLIENT_SECRET || "replay";
+  }
+  // without SUPABASE_URL the client never touches the network and fx uses the static table
+
+  const asOf =
+    typeof args["as-of"] === "string"
+      ? new Date(args["as-of"]).toISOString()
+      : mode === "replay"
+        ? fixturesAsOf(fixtures)
+        : new Date().toISOString();
+  if (mode === "replay") {
+    const asOfMs = Date.parse(asOf);
+    Date.now = () => asOfMs;
+  }
+
+  // imported after the env above is in place
+  const { validateAnalyzeRequest } = await import("../lib/analysis");
+  const { computeValuation, createSharedCompFetchers, dealLabelFromRatio } = await import("../lib/valuation");
+  const { BUNDLED_ASSIGNMENT, scoringConfigFromJson } = await import("../lib/scoring");
+  const { STATIC_FX_TABLE, fxRate } = await import("../lib/fx");
+  const { errorCodeOf } = await import("../lib/errors");
+
+  let assignment: ScoringAssignment = BUNDLED_ASSIGNMENT;
+  if (typeof args.scoring === "string") {
+    const raw = JSON.parse(fs.readFileSync(args.scoring, "utf8"));
+    assignment = {
+      config: scoringConfigFromJson(raw.version || path.basename(args.scoring), raw.config || raw),
+      variant: "control",
+    };
+  }
+  const thresholds = assignment.config.defaults.dealThresholds;
+
+  const corpus = readCorpus(corpusFile);
+  const results: ListingResult[] = [];
+
+  for (const entry of corpus) {
+    const base: ListingResult = {
+      id: entry.id,
+      error: null,
+      method: null,
+      soldComps: false,
+      degraded: false,
+      estimate: null,
+      range: null,
+      soldPrice: 0,
+      currency: "",
+      ape: null,
+      label: null,
+      expectedLabel: null,
+    };
+
+    const valid = validateAnalyzeRequest(entry.request);
+    if (valid.ok === false) {
+      results.push({ ...base, error: valid.outcome.body.code });
+      continue;
+    }
+    const { body, source } = valid;
+
+    // sale price restated in the asking currency
+    const rate =
+      entry.soldPrice.currency && entry.soldPrice.currency.toUpperCase() !== body.price.currency.toUpperCase()
+        ? fxRate(STATIC_FX_TABLE, entry.soldPrice.currency, body.price.currency)
+        : 1;
+    if (rate == null) {
+      results.push({ ...base, error: "UNSUPPORTED_CURRENCY" });
+      continue;
+    }
+    const soldPrice = Number(entry.soldPrice.amount) * rate;
+    const expectedLabel = entry.label || dealLabelFromRatio(body.price.amount / soldPrice, thresholds);
+    const withTruth = { ...base, soldPrice: Math.round(soldPrice), currency: body.price.currency, expectedLabel };
+
+    try {
+      const payload = await computeValuation(body, source, createSharedCompFetchers(), null, assignment);
+      const estimate = payload.estimate.marketValue.amount as number;
+      results.push({
+        ...withTruth,
+        method: payload.estimate.method,
+        soldComps: String(payload.estimate.method).startsWith("sold-comps"),
+        degraded: !!payload.degraded,
+        estimate,
+        range: { low: payload.estimate.range.low.amount, high: payload.estimate.range.high.amount },
+        ape: Number(((Math.abs(estimate - soldPrice) / soldPrice) * 100).toFixed(1)),
+        label: payload.deal.label,
+      });
+    } catch (e: any) {
+      results.push({ ...withTruth, error: errorCodeOf(e) });
+    }
+  }
+
+  const report: Report = {
+    generatedAt: new Date().toISOString(),
+    asOf,
+    corpus: corpusFile,
+    fixtures,
+    mode,
+    scoring: assignment.config.version,
+    metrics: computeMetrics(results),
+    listings: results,
+  };
+
+  const baseline: Report | null =
+    typeof args.baseline === "string" ? JSON.parse(fs.readFileSync(args.baseline, "utf8")) : null;
+
+  console.log(`${corpus.length} listings, ${mode}, scoring ${report.scoring}, as of ${asOf.slice(0, 10)}`);
+  printMetrics(report.metrics, baseline?.metrics || null);
+  if (baseline) printChanges(results, baseline.listings);
+
+  if (typeof args.out === "string") {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${args.out}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
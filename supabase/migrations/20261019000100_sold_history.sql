@@ -0,0 +1,18 @@
+-- Sold comps recorded from remote providers; queried by the "stored" sold provider.
+create table if not exists sold_history (
+  marketplace_id text not null,
+  item_id text not null,
+  title text not null,
+  title_norm text not null,
+  price_amount numeric not null,
+  price_currency text not null,
+  condition text,
+  url text not null,
+  sold_date timestamptz not null,
+  provider text not null,
+  recorded_at timestamptz not null default now(),
+  primary key (marketplace_id, item_id)
+);
+
+create index if not exists sold_history_marketplace_sold_date_idx
+  on sold_history (marketplace_id, sold_date desc);
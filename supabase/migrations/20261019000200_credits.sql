@@ -0,0 +1,111 @@
+-- Plan allowance tracking + credit ledger for /api/v1/analyze metering.
+alter table users add column if not exists period_used integer not null default 0;
+alter table users add column if not exists period_started_at timestamptz not null default now();
+
+create table if not exists credit_ledger (
+  id bigint generated always as identity primary key,
+  device_id text not null,
+  plan text not null,
+  reason text not null, -- analysis | cached_hit | watch_check | refund
+  cost integer not null, -- negative for refunds
+  from_allowance integer not null,
+  from_balance integer not null,
+  ref text, -- cache key of the analysis, or the refunded ledger id
+  allowance_remaining integer not null,
+  credits_remaining integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_ledger_device_idx on credit_ledger (device_id, created_at desc);
+
+create or replace function debit_analysis_credit(
+  p_device_id text,
+  p_plan text,
+  p_cost integer,
+  p_allowance integer,
+  p_period text,
+  p_reason text,
+  p_ref text
+) returns table (
+  ok boolean,
+  ledger_id bigint,
+  credits_remaining integer,
+  allowance_remaining integer,
+  period_started_at timestamptz
+)
+language plpgsql as $$
+declare
+  u users%rowtype;
+  v_period_start timestamptz := date_trunc(p_period, now() at time zone 'utc') at time zone 'utc';
+  v_from_allowance integer;
+  v_from_balance integer;
+  v_id bigint;
+begin
+  select * into u from users where device_id = p_device_id for update;
+  if not found then
+    raise exception 'unknown device %', p_device_id;
+  end if;
+
+  if u.period_started_at < v_period_start then
+    u.period_used := 0;
+    u.period_started_at := v_period_start;
+  end if;
+
+  v_from_allowance := least(p_cost, greatest(p_allowance - u.period_used, 0));
+  v_from_balance := p_cost - v_from_allowance;
+
+  if v_from_balance > u.credits_remaining then
+    return query select false, null::bigint, u.credits_remaining,
+      greatest(p_allowance - u.period_used, 0), u.period_started_at;
+    return;
+  end if;
+
+  update users
+    set period_used = u.period_used + v_from_allowance,
+        period_started_at = u.period_started_at,
+        credits_remaining = u.credits_remaining - v_from_balance
+    where device_id = p_device_id;
+
+  insert into credit_ledger (
+    device_id, plan, reason, cost, from_allowance, from_balance, ref,
+    allowance_remaining, credits_remaining
+  ) values (
+    p_device_id, p_plan, p_reason, p_cost, v_from_allowance, v_from_balance, p_ref,
+    greatest(p_allowance - u.period_used - v_from_allowance, 0), u.credits_remaining - v_from_balance
+  ) returning id into v_id;
+
+  return query select true, v_id, u.credits_remaining - v_from_balance,
+    greatest(p_allowance - u.period_used - v_from_allowance, 0), u.period_started_at;
+end;
+$$;
+
+create or replace function refund_analysis_credit(p_ledger_id bigint) returns void
+language plpgsql as $$
+declare
+  l credit_ledger%rowtype;
+  u users%rowtype;
+begin
+  select * into l from credit_ledger where id = p_ledger_id and cost > 0;
+  if not found then
+    return;
+  end if;
+  if exists (select 1 from credit_ledger where reason = 'refund' and ref = p_ledger_id::text) then
+    return;
+  end if;
+
+  select * into u from users where device_id = l.device_id for update;
+
+  update users
+    set period_used = greatest(u.period_used - l.from_allowance, 0),
+        credits_remaining = u.credits_remaining + l.from_balance
+    where device_id = l.device_id;
+
+  insert into credit_ledger (
+    device_id, plan, reason, cost, from_allowance, from_balance, ref,
+    allowance_remaining, credits_remaining
+  ) values (
+    l.device_id, l.plan, 'refund', -l.cost, -l.from_allowance, -l.from_balance, p_ledger_id::text,
+    l.allowance_remaining + l.from_allowance, u.credits_remaining + l.from_balance
+  );
+end;
+$$;
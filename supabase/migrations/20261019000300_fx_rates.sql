@@ -0,0 +1,7 @@
+-- Daily FX reference rates (per 1 EUR), refreshed by /api/v1/fx-refresh.
+create table if not exists fx_rates (
+  as_of date primary key,
+  base text not null default 'EUR',
+  rates jsonb not null,
+  fetched_at timestamptz not null default now()
+);
@@ -0,0 +1,21 @@
+-- Every sold-comps market value computed by /api/v1/analyze, for price charts.
+create table if not exists price_history (
+  id bigint generated always as identity primary key,
+  model_key text not null, -- brand|model|size|material (normalized)
+  brand text not null,
+  model text not null,
+  size text not null default '',
+  material text not null default '',
+  marketplace_id text not null,
+  source text not null,
+  currency text not null,
+  market_value numeric not null,
+  range_low numeric,
+  range_high numeric,
+  confidence text,
+  method text,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists price_history_model_idx
+  on price_history (model_key, marketplace_id, recorded_at desc);
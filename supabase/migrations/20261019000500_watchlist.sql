@@ -0,0 +1,35 @@
+-- Per-device watched listings, re-valued by /api/v1/watchlist-check.
+create table if not exists watchlist (
+  id bigint generated always as identity primary key,
+  device_id text not null references users (device_id),
+  url text not null,
+  request_json jsonb not null,
+  webhook_url text,
+  active boolean not null default true,
+  last_label text,
+  last_ratio numeric,
+  last_price numeric,
+  last_market_value numeric,
+  last_checked_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (device_id, url)
+);
+
+create index if not exists watchlist_due_idx on watchlist (active, last_checked_at nulls first);
+
+create table if not exists watchlist_events (
+  id bigint generated always as identity primary key,
+  watch_id bigint not null references watchlist (id),
+  label text not null,
+  ratio numeric not null,
+  price numeric not null,
+  market_value numeric,
+  previous_label text,
+  previous_ratio numeric,
+  previous_price numeric,
+  alerts text[] not null default '{}',
+  notified boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists watchlist_events_watch_idx on watchlist_events (watch_id, created_at desc);
@@ -0,0 +1,115 @@
+-- Daily eBay call budget + circuit breaker per upstream service (lib/budget.ts).
+-- eBay quotas reset at midnight Pacific, so the budget day does too.
+create table if not exists upstream_budget (
+  service text primary key, -- browse | finding | insights | token
+  day date not null default (now() at time zone 'America/Los_Angeles')::date,
+  calls integer not null default 0,
+  failures integer not null default 0,
+  rejected integer not null default 0, -- refused by the budget or the breaker
+  consecutive_failures integer not null default 0,
+  trips integer not null default 0, -- breaker openings since the last success; drives the backoff
+  opened_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create or replace function acquire_upstream_call(
+  p_service text,
+  p_daily_limit integer,
+  p_reserve integer,
+  p_paid boolean
+) returns table (
+  allowed boolean,
+  reason text, -- circuit_open | budget_exhausted | reserved_for_paid
+  calls_today integer,
+  retry_at timestamptz
+)
+language plpgsql as $$
+declare
+  b upstream_budget%rowtype;
+  v_day date := (now() at time zone 'America/Los_Angeles')::date;
+  v_reason text;
+  v_retry_at timestamptz;
+begin
+  insert into upstream_budget (service, day) values (p_service, v_day) on conflict (service) do nothing;
+  select * into b from upstream_budget where service = p_service for update;
+
+  if b.day < v_day then
+    b.day := v_day;
+    b.calls := 0;
+    b.failures := 0;
+    b.rejected := 0;
+  end if;
+
+  if b.opened_until is not null and b.opened_until > now() then
+    v_reason := 'circuit_open';
+    v_retry_at := b.opened_until;
+  elsif b.calls >= p_daily_limit then
+    v_reason := 'budget_exhausted';
+  elsif not p_paid and b.calls >= p_daily_limit - p_reserve then
+    v_reason := 'reserved_for_paid';
+  end if;
+  if v_reason in ('budget_exhausted', 'reserved_for_paid') then
+    v_retry_at := (b.day + 1)::timestamp at time zone 'America/Los_Angeles';
+  end if;
+
+  update upstream_budget
+    set day = b.day,
+        calls = b.calls + (case when v_reason is null then 1 else 0 end),
+        failures = b.failures,
+        rejected = b.rejected + (case when v_reason is null then 0 else 1 end),
+        updated_at = now()
+    where service = p_service;
+
+  return query select v_reason is null, v_reason,
+    b.calls + (case when v_reason is null then 1 else 0 end), v_retry_at;
+end;
+$$;
+
+create or replace function record_upstream_result(
+  p_service text,
+  p_outcome text, -- ok | failure | rate_limited
+  p_failure_threshold integer,
+  p_base_backoff_seconds integer,
+  p_max_backoff_seconds integer
+) returns timestamptz
+language plpgsql as $$
+declare
+  b upstream_budget%rowtype;
+  v_until timestamptz;
+  v_backoff numeric;
+begin
+  select * into b from upstream_budget where service = p_service for update;
+  if not found then
+    return null;
+  end if;
+
+  if p_outcome = 'ok' then
+    update upstream_budget
+      set consecutive_failures = 0, trips = 0, updated_at = now()
+      where service = p_service;
+    return null;
+  end if;
+
+  -- a 429, a run of failures, or a failed probe after a trip (half-open) opens the breaker
+  if p_outcome = 'rate_limited' or b.consecutive_failures + 1 >= p_failure_threshold or b.trips > 0 then
+    v_backoff := least(p_base_backoff_seconds * power(2, b.trips), p_max_backoff_seconds);
+    -- jitter over the upper half so instances don't all probe at once
+    v_until := now() + make_interval(secs => v_backoff * (0.5 + random() / 2));
+    update upstream_budget
+      set failures = b.failures + 1,
+          consecutive_failures = 0,
+          trips = b.trips + 1,
+          opened_until = v_until,
+          updated_at = now()
+      where service = p_service;
+    return v_until;
+  end if;
+
+  update upstream_budget
+    set failures = b.failures + 1,
+        consecutive_failures = b.consecutive_failures + 1,
+        updated_at = now()
+    where service = p_service;
+  return null;
+end;
+$$;
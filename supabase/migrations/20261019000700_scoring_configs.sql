@@ -0,0 +1,14 @@
+-- Versioned ranking / deal-label tuning (lib/scoring). One 'live' row is used
+-- for everyone; an 'experiment' row takes `traffic` (0-1) of devices.
+-- `config` = { defaults: {...}, overrides: [{ match: {...}, values: {...} }] };
+-- anything a row leaves out falls back to the bundled config.
+create table if not exists scoring_configs (
+  version text primary key,
+  config jsonb not null,
+  role text not null default 'draft' check (role in ('draft', 'live', 'experiment', 'retired')),
+  traffic numeric not null default 0 check (traffic >= 0 and traffic <= 1),
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scoring_configs_role_idx on scoring_configs (role, created_at desc);
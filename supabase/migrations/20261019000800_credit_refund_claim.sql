@@ -0,0 +1,38 @@
+-- Refunds claim their ledger row with one conditional UPDATE, so two concurrent
+-- refunds of the same debit cannot both credit the user.
+alter table credit_ledger add column if not exists refunded_at timestamptz;
+
+update credit_ledger l
+  set refunded_at = r.created_at
+  from credit_ledger r
+  where r.reason = 'refund' and r.ref = l.id::text and l.refunded_at is null;
+
+create or replace function refund_analysis_credit(p_ledger_id bigint) returns void
+language plpgsql as $$
+declare
+  l credit_ledger%rowtype;
+  v_credits integer;
+begin
+  update credit_ledger
+    set refunded_at = now()
+    where id = p_ledger_id and cost > 0 and refunded_at is null
+    returning * into l;
+  if not found then
+    return; -- unknown, not a debit, or already refunded
+  end if;
+
+  update users
+    set period_used = greatest(period_used - l.from_allowance, 0),
+        credits_remaining = credits_remaining + l.from_balance
+    where device_id = l.device_id
+    returning credits_remaining into v_credits;
+
+  insert into credit_ledger (
+    device_id, plan, reason, cost, from_allowance, from_balance, ref,
+    allowance_remaining, credits_remaining
+  ) values (
+    l.device_id, l.plan, 'refund', -l.cost, -l.from_allowance, -l.from_balance, p_ledger_id::text,
+    l.allowance_remaining + l.from_allowance, v_credits
+  );
+end;
+$$;
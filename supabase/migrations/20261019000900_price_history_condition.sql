@@ -0,0 +1,7 @@
+-- Market values are condition-adjusted, so each condition grade gets its own series.
+-- Rows written before this have no grade; they stay as the "unknown condition" series.
+alter table price_history add column if not exists condition text not null default '';
+
+update price_history
+  set model_key = model_key || '|'
+  where model_key not like '%|%|%|%|%';
@@ -0,0 +1,129 @@
+-- upstream_budget, second pass:
+-- * acquire / record are single UPDATE ... RETURNING statements; the row lock is
+--   held for that statement only (no select-for-update round trip in between).
+-- * acquire reports whether the breaker has anything to reset, so successful
+--   calls skip record_upstream_result in the normal (closed, no failures) case.
+-- * half-open lets one probe through: acquiring it stamps probing_until, and
+--   everyone else is refused until the probe reports back or times out.
+alter table upstream_budget add column if not exists probing_until timestamptz;
+alter table upstream_budget add column if not exists last_decision text;
+
+-- what acquire_upstream_call decides for row `b`
+create or replace function upstream_budget_decision(
+  b upstream_budget,
+  p_day date,
+  p_daily_limit integer,
+  p_reserve integer,
+  p_paid boolean
+) returns text
+language sql stable as $$
+  select case
+    when b.opened_until > now() then 'circuit_open'
+    when b.trips > 0 and b.probing_until > now() then 'circuit_open'
+    when (case when b.day < p_day then 0 else b.calls end) >= p_daily_limit then 'budget_exhausted'
+    when not p_paid and (case when b.day < p_day then 0 else b.calls end) >= p_daily_limit - p_reserve
+      then 'reserved_for_paid'
+    when b.trips > 0 then 'probe'
+    else 'allowed'
+  end;
+$$;
+
+drop function if exists acquire_upstream_call(text, integer, integer, boolean);
+
+create or replace function acquire_upstream_call(
+  p_service text,
+  p_daily_limit integer,
+  p_reserve integer,
+  p_paid boolean,
+  p_probe_seconds integer
+) returns table (
+  allowed boolean,
+  reason text, -- circuit_open | budget_exhausted | reserved_for_paid
+  calls_today integer,
+  retry_at timestamptz,
+  breaker_clean boolean -- nothing for a success to reset
+)
+language plpgsql as $$
+declare
+  v_day date := (now() at time zone 'America/Los_Angeles')::date;
+begin
+  insert into upstream_budget (service, day) values (p_service, v_day) on conflict (service) do nothing;
+
+  return query
+  update upstream_budget b
+    set last_decision = upstream_budget_decision(b, v_day, p_daily_limit, p_reserve, p_paid),
+        day = v_day,
+        calls = (case when b.day < v_day then 0 else b.calls end)
+          + (case when upstream_budget_decision(b, v_day, p_daily_limit, p_reserve, p_paid) in ('allowed', 'probe')
+              then 1 else 0 end),
+        failures = case when b.day < v_day then 0 else b.failures end,
+        rejected = (case when b.day < v_day then 0 else b.rejected end)
+          + (case when upstream_budget_decision(b, v_day, p_daily_limit, p_reserve, p_paid) in ('allowed', 'probe')
+              then 0 else 1 end),
+        probing_until = case
+          when upstream_budget_decision(b, v_day, p_daily_limit, p_reserve, p_paid) = 'probe'
+            then now() + make_interval(secs => p_probe_seconds)
+          else b.probing_until
+        end,
+        updated_at = now()
+    where b.service = p_service
+    returning
+      b.last_decision in ('allowed', 'probe'),
+      case when b.last_decision in ('allowed', 'probe') then null else b.last_decision end,
+      b.calls,
+      case
+        when b.last_decision = 'circuit_open' then greatest(b.opened_until, b.probing_until)
+        when b.last_decision in ('budget_exhausted', 'reserved_for_paid')
+          then (v_day + 1)::timestamp at time zone 'America/Los_Angeles'
+      end,
+      b.trips = 0 and b.consecutive_failures = 0;
+end;
+$$;
+
+create or replace function record_upstream_result(
+  p_service text,
+  p_outcome text, -- ok | failure | rate_limited
+  p_failure_threshold integer,
+  p_base_backoff_seconds integer,
+  p_max_backoff_seconds integer
+) returns timestamptz
+language plpgsql as $$
+declare
+  v_until timestamptz;
+begin
+  if p_outcome = 'ok' then
+    update upstream_budget
+      set consecutive_failures = 0, trips = 0, probing_until = null, updated_at = now()
+      where service = p_service and (consecutive_failures > 0 or trips > 0 or probing_until is not null);
+    return null;
+  end if;
+
+  -- a 429, a run of failures, or a failed probe (trips > 0) opens the breaker;
+  -- backoff doubles per trip, jittered over its upper half
+  update upstream_budget b
+    set failures = b.failures + 1,
+        consecutive_failures = case
+          when p_outcome = 'rate_limited' or b.consecutive_failures + 1 >= p_failure_threshold or b.trips > 0 then 0
+          else b.consecutive_failures + 1
+        end,
+        trips = case
+          when p_outcome = 'rate_limited' or b.consecutive_failures + 1 >= p_failure_threshold or b.trips > 0
+            then b.trips + 1
+          else b.trips
+        end,
+        opened_until = case
+          when p_outcome = 'rate_limited' or b.consecutive_failures + 1 >= p_failure_threshold or b.trips > 0
+            then now() + make_interval(
+              secs => least(p_base_backoff_seconds * power(2, b.trips), p_max_backoff_seconds) * (0.5 + random() / 2)
+            )
+          else b.opened_until
+        end,
+        probing_until = null,
+        updated_at = now()
+    where b.service = p_service
+    -- only a trip leaves consecutive_failures at 0 after a failure
+    returning case when b.consecutive_failures = 0 then b.opened_until end into v_until;
+
+  return v_until;
+end;
+$$;
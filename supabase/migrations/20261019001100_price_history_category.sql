@@ -0,0 +1,17 @@
+-- The same brand + model name can exist in two categories (Cartier, Bulgari), so
+-- the category leads the model key: category|brand|model|size|material|condition.
+-- Older rows are placed by their size format ("40mm" watches, "us 10" sneakers);
+-- jewelry rows look like bag rows there and stay in bags, the default category.
+alter table price_history add column if not exists category text not null default 'bags';
+
+update price_history
+  set category = case
+    when size like '%mm' then 'watches'
+    when size like 'us %' or size like 'eu %' then 'sneakers'
+    else 'bags'
+  end
+  where model_key not like '%|%|%|%|%|%';
+
+update price_history
+  set model_key = category || '|' || model_key
+  where model_key not like '%|%|%|%|%|%';
@@ -0,0 +1,42 @@
+-- One watch per device + listing. Requests that only give an eBay itemId have no
+-- URL until enrichment succeeds, so the listing key is the eBay item id when there
+-- is one ("ebay:<legacy id>"), else the URL ("url:<url>"); see watchListingKey().
+alter table watchlist add column if not exists listing_key text;
+alter table watchlist alter column url drop not null;
+
+update watchlist
+  set listing_key = coalesce(
+    case when coalesce(request_json->>'source', 'ebay') = 'ebay' then
+      'ebay:' || coalesce(
+        nullif(split_part(request_json->>'itemId', '|', 2), ''),
+        nullif(request_json->>'itemId', ''),
+        substring(url from '/itm/(?:[^/?#]+/)?([0-9]{9,15})'),
+        substring(url from '[?&][iI]tem(?:[iI]d)?=([0-9]{9,15})')
+      )
+    end,
+    'url:' || url
+  )
+  where listing_key is null;
+
+-- duplicates the old (device_id, url) key could not see: keep the newest active one
+update watchlist w
+  set active = false
+  from watchlist newer
+  where newer.device_id = w.device_id
+    and newer.listing_key = w.listing_key
+    and newer.active
+    and w.active
+    and newer.id > w.id;
+
+-- inactive duplicates would still collide on the unique key; fold them into a distinct key
+update watchlist
+  set listing_key = listing_key || '#' || id
+  where not active
+    and exists (
+      select 1 from watchlist o
+      where o.device_id = watchlist.device_id and o.listing_key = watchlist.listing_key and o.id <> watchlist.id
+    );
+
+alter table watchlist alter column listing_key set not null;
+alter table watchlist drop constraint if exists watchlist_device_id_url_key;
+create unique index if not exists watchlist_device_listing_idx on watchlist (device_id, listing_key);
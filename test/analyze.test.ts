@@ -0,0 +1,149 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+
+/**
+ * ===== ANALYZE FLOW, END TO END =====
+ * createAnalyzeHandler(createMemoryStores()) with eBay answered in-process:
+ * validation, credits and both cache tiers, without Supabase or the network.
+ */
+process.env.STORAGE_BACKEND = "memory";
+process.env.EBAY_CLIENT_ID = "test";
+process.env.EBAY_CLIENT_SECRET = "test";
+process.env.SUPABASE_URL = "";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "";
+
+const TITLE = "Louis Vuitton Neverfull MM Monogram";
+const LISTING = {
+  title: TITLE,
+  price: { amount: 900, currency: "USD" },
+  url: "https://www.vestiairecollective.com/women-bags/handbags/louis-vuitton/neverfull-123.shtml",
+};
+
+const ebayCalls: string[] = [];
+const realFetch = globalThis.fetch;
+
+function fakeEbay(url: string): Response {
+  const json = (body: any) => new Response(JSON.stringify(body), { status: 200 });
+  if (url.includes("oauth2")) return json({ access_token: "t", expires_in: 7200 });
+  if (url.includes("item_summary")) {
+    return json({
+      itemSummaries: Array.from({ length: 10 }, (_, i) => ({
+        title: `${TITLE} tote ${i}`,
+        price: { value: String(1450 + i * 30), currency: "USD" },
+        itemWebUrl: `https://www.ebay.com/itm/a${i}`,
+      })),
+    });
+  }
+  if (url.includes("FindingService")) {
+    const item = Array.from({ length: 12 }, (_, i) => ({
+      itemId: [`s${i}`],
+      title: [`${TITLE} ${i}`],
+      viewItemURL: [`https://www.ebay.com/itm/s${i}`],
+      sellingStatus: [{ currentPrice: [{ __value__: String(1350 + i * 20), "@currencyId": "USD" }] }],
+      listingInfo: [{ endTime: [new Date(Date.now() - i * 5 * 86400000).toISOString()] }],
+    }));
+    return json({ findCompletedItemsResponse: [{ searchResult: [{ item }] }] });
+  }
+  return new Response("{}", { status: 404 });
+}
+
+let createAnalyzeHandler: typeof import("../api/v1/analyze").createAnalyzeHandler;
+let createMemoryStores: typeof import("../lib/stores").createMemoryStores;
+
+before(async () => {
+  globalThis.fetch = (async (input: any) => {
+    const url = String(input);
+    if (!/\.ebay\.com\//.test(url)) throw new Error(`unexpected fetch: ${url}`);
+    ebayCalls.push(url);
+    return fakeEbay(url);
+  }) as typeof fetch;
+
+  // lib/* reads the env above at import
+  ({ createAnalyzeHandler } = await import("../api/v1/analyze"));
+  ({ createMemoryStores } = await import("../lib/stores"));
+});
+
+after(() => {
+  globalThis.fetch = realFetch;
+});
+
+type Reply = { status: number; body: any; headers: Record<string, string> };
+
+function client(stores: ReturnType<typeof createMemoryStores>, deviceId = "device-1") {
+  const handler = createAnalyzeHandler(stores);
+  return async (body: any): Promise<Reply> => {
+    const out: Reply = { status: 0, body: null, headers: {} };
+    const res: any = {
+      setHeader: (k: string, v: string) => (out.headers[k] = v),
+      status: (s: number) => ((out.status = s), res),
+      json: (b: any) => ((out.body = b), res),
+      end: () => res,
+    };
+    await handler({ method: "POST", query: {}, headers: { "x-device-id": deviceId }, body } as any, res);
+    return out;
+  };
+}
+
+test("values a listing, then answers a repeat from the response cache", async () => {
+  const analyze = client(createMemoryStores());
+
+  const first = await analyze(LISTING);
+  assert.equal(first.status, 200);
+  assert.equal(first.body.cache.response, "miss");
+  assert.match(first.body.data.estimate.method, /^sold-comps/);
+  assert.equal(first.body.data.degraded, false);
+  assert.equal(first.body.data.credits.allowanceRemaining, 2);
+
+  const calls = ebayCalls.length;
+  const repeat = await analyze(LISTING);
+  assert.equal(repeat.status, 200);
+  assert.equal(repeat.body.cache.response, "hit");
+  assert.equal(repeat.body.cached, true);
+  assert.equal(ebayCalls.length, calls);
+});
+
+test("another listing of the same model, titled differently, reuses the comps tier", async () => {
+  const stores = createMemoryStores();
+  const analyze = client(stores);
+  await analyze(LISTING);
+
+  const calls = ebayCalls.length;
+  const other = await analyze({
+    ...LISTING,
+    title: "Authentic Louis Vuitton monogram tote - Neverfull MM, comes with dust bag",
+    price: { amount: 1100, currency: "USD" },
+    url: LISTING.url.replace("123", "456"),
+  });
+  assert.equal(other.status, 200);
+  assert.equal(other.body.cache.response, "miss");
+  assert.deepEqual(other.body.cache.comps, { active: "hit", sold: "hit" });
+  assert.equal(ebayCalls.length, calls);
+});
+
+test("an exhausted free plan gets 402 with Retry-After", async () => {
+  const stores = createMemoryStores({
+    users: [{ device_id: "device-1", plan: "free", period_used: 3, period_started_at: new Date().toISOString() }],
+  });
+  const reply = await client(stores)(LISTING);
+  assert.equal(reply.status, 402);
+  assert.equal(reply.body.code, "CREDITS_EXHAUSTED");
+  assert.ok(Number(reply.headers["Retry-After"]) > 0);
+});
+
+test("an exhausted plan does not reach eBay for the listing itself", async () => {
+  const stores = createMemoryStores({
+    users: [{ device_id: "device-1", plan: "free", period_used: 3, period_started_at: new Date().toISOString() }],
+  });
+  const calls = ebayCalls.length;
+  const reply = await client(stores)({ itemId: "123456789012" });
+  assert.equal(reply.status, 402);
+  assert.equal(reply.body.code, "CREDITS_EXHAUSTED");
+  assert.equal(ebayCalls.length, calls);
+});
+
+test("an invalid request is refused before any eBay call", async () => {
+  const calls = ebayCalls.length;
+  const reply = await client(createMemoryStores())({ ...LISTING, price: { amount: -1, currency: "USD" } });
+  assert.equal(reply.status, 400);
+  assert.equal(ebayCalls.length, calls);
+});
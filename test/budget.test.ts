@@ -0,0 +1,99 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { upstreamBudgetStatus, withUpstreamBudget } from "../lib/budget";
+import { errorCodeOf, upstreamError } from "../lib/errors";
+import { createMemoryStores } from "../lib/stores";
+
+/**
+ * ===== UPSTREAM BUDGET + CIRCUIT BREAKER =====
+ * withUpstreamBudget over the in-memory CooldownStore.
+ */
+const realNow = Date.now;
+
+afterEach(() => {
+  Date.now = realNow;
+  delete process.env.EBAY_DAILY_LIMITS;
+});
+
+function call(cooldowns: ReturnType<typeof createMemoryStores>["cooldowns"], status: number | null, priority: "free" | "paid" = "free") {
+  return withUpstreamBudget(
+    "browse",
+    priority,
+    async () => {
+      if (status != null) throw upstreamError("browse", status);
+      return "ok";
+    },
+    cooldowns
+  ).then(
+    () => "ok",
+    (e) => errorCodeOf(e)
+  );
+}
+
+test("five failures in a row open the breaker; refused calls never run", async () => {
+  const { cooldowns } = createMemoryStores();
+  for (let i = 0; i < 5; i++) assert.equal(await call(cooldowns, 500), "UPSTREAM_UNAVAILABLE");
+
+  let ran = false;
+  const refused = await withUpstreamBudget("browse", "free", async () => (ran = true), cooldowns).catch(errorCodeOf);
+  assert.equal(refused, "UPSTREAM_CIRCUIT_OPEN");
+  assert.equal(ran, false);
+  assert.equal((await upstreamBudgetStatus(cooldowns)).find((s) => s.service === "browse")?.circuit, "open");
+});
+
+test("a 429 opens it at once; a 404 is an answer, not a failure", async () => {
+  const { cooldowns } = createMemoryStores();
+  for (let i = 0; i < 6; i++) assert.equal(await call(cooldowns, 404), "UPSTREAM_NOT_FOUND");
+  assert.equal(await call(cooldowns, null), "ok");
+
+  assert.equal(await call(cooldowns, 429), "UPSTREAM_RATE_LIMITED");
+  assert.equal(await call(cooldowns, null), "UPSTREAM_CIRCUIT_OPEN");
+});
+
+test("after the backoff one probe goes through; its success closes the breaker", async () => {
+  const { cooldowns } = createMemoryStores();
+  await call(cooldowns, 429);
+  const openedUntil = (await upstreamBudgetStatus(cooldowns))[0].openedUntil;
+  assert.ok(openedUntil);
+
+  Date.now = () => new Date(openedUntil).getTime() + 1;
+  // half-open: while the probe is out, others are refused
+  let release!: () => void;
+  const probe = withUpstreamBudget("browse", "free", () => new Promise<void>((r) => (release = r)), cooldowns);
+  await new Promise((r) => setImmediate(r));
+  assert.equal(await call(cooldowns, null), "UPSTREAM_CIRCUIT_OPEN");
+
+  release();
+  await probe;
+  assert.equal(await call(cooldowns, null), "ok");
+  assert.equal((await upstreamBudgetStatus(cooldowns))[0].circuit, "closed");
+});
+
+test("a failed probe re-opens the breaker with a longer backoff", async () => {
+  const { cooldowns } = createMemoryStores();
+  const start = realNow();
+  await call(cooldowns, 429);
+  const first = new Date((await upstreamBudgetStatus(cooldowns))[0].openedUntil!).getTime();
+
+  Date.now = () => first + 1;
+  assert.equal(await call(cooldowns, 500), "UPSTREAM_UNAVAILABLE");
+  const second = new Date((await upstreamBudgetStatus(cooldowns))[0].openedUntil!).getTime();
+  // 30s x [0.5, 1) on the first trip, 60s x [0.5, 1) on the second
+  assert.ok(first - start <= 30_000);
+  assert.ok(second - (first + 1) >= 30_000);
+  assert.equal(await call(cooldowns, null), "UPSTREAM_CIRCUIT_OPEN");
+});
+
+test("the last 20% of the daily budget is kept for paid plans", async () => {
+  process.env.EBAY_DAILY_LIMITS = "browse=10";
+  const { cooldowns } = createMemoryStores();
+  for (let i = 0; i < 8; i++) assert.equal(await call(cooldowns, null), "ok");
+  assert.equal(await call(cooldowns, null), "UPSTREAM_BUDGET_EXHAUSTED");
+
+  assert.equal(await call(cooldowns, null, "paid"), "ok");
+  assert.equal(await call(cooldowns, null, "paid"), "ok");
+  assert.equal(await call(cooldowns, null, "paid"), "UPSTREAM_BUDGET_EXHAUSTED");
+
+  const status = (await upstreamBudgetStatus(cooldowns))[0];
+  assert.deepEqual([status.callsToday, status.remaining, status.paidOnly, status.rejectedToday], [10, 0, true, 2]);
+});
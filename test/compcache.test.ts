@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeCompQuery, withCompsCache } from "../lib/compcache";
+import { createMemoryStores } from "../lib/stores";
+import type { SourceAdapter } from "../lib/sources";
+
+/**
+ * ===== COMPS CACHE KEYS =====
+ * Two queries share an entry only when eBay would get the same search.
+ */
+const WATCH_NEGATIVES = '-"band only" -"bracelet only" -"box only" -"for parts"';
+
+test("phrase grouping is part of the key", () => {
+  assert.notEqual(
+    normalizeCompQuery(`"Rolex" "Submariner" ${WATCH_NEGATIVES}`),
+    normalizeCompQuery(`"Rolex" "Submariner box" ${WATCH_NEGATIVES}`)
+  );
+  assert.notEqual(normalizeCompQuery('"Rolex Submariner"'), normalizeCompQuery('"Rolex" "Submariner"'));
+});
+
+test("an exclusion is not a search term", () => {
+  assert.notEqual(normalizeCompQuery('"Rolex" -"box only"'), normalizeCompQuery('"Rolex" "box only"'));
+});
+
+test("case, spacing and exclusion order do not change the key", () => {
+  assert.equal(
+    normalizeCompQuery(`"Rolex"  "Submariner Date" ${WATCH_NEGATIVES}`),
+    normalizeCompQuery(`"rolex" "submariner   date" -"for parts" -"box only" -"bracelet only" -"band only"`)
+  );
+});
+
+test("queries differing only in phrase grouping are fetched separately", async () => {
+  let fetches = 0;
+  const source = { id: "ebay" } as SourceAdapter;
+  const comps = withCompsCache(
+    {
+      active: async () => (fetches++, []),
+      sold: async () => ({ comps: [], provider: null, attempts: [], cooldownActive: false }),
+    },
+    createMemoryStores().cache
+  );
+  const params = { limit: 100, marketplaceId: "EBAY_US", currency: "USD", filter: "" };
+
+  await comps.fetchers.active(source, { ...params, query: `"Rolex" "Submariner" ${WATCH_NEGATIVES}` });
+  await comps.fetchers.active(source, { ...params, query: `"Rolex" "Submariner box" ${WATCH_NEGATIVES}` });
+  await comps.fetchers.active(source, { ...params, query: `"rolex" "Submariner" ${WATCH_NEGATIVES}` });
+  assert.equal(fetches, 2);
+  assert.equal(comps.report().active, "partial");
+});
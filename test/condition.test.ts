@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { conditionAdjustedPrice, gradeDistance, gradeFromText, resolveGrade } from "../lib/condition";
+import type { Comp } from "../lib/types";
+
+/**
+ * ===== CONDITION GRADES =====
+ */
+test("marketplace wordings map onto one scale", () => {
+  const cases: [string, string | null][] = [
+    ["New", "new"],
+    ["New with tags", "new_with_tags"],
+    ["NWT", "new_with_tags"],
+    ["New other (see details)", "new"],
+    ["Pre-owned - Excellent", "excellent"],
+    ["Very good condition", "very_good"],
+    ["Pre-owned", "good"],
+    ["Gently used", "good"],
+    ["Fair: visible wear and tear", "fair"],
+    ["For parts or not working", "poor"],
+    ["Vintage", null],
+    ["", null],
+  ];
+  for (const [text, grade] of cases) assert.equal(gradeFromText(text), grade, text);
+});
+
+test("the first matching phrase wins, worst first", () => {
+  // "damaged" outranks "like new"
+  assert.equal(gradeFromText("like new but damaged strap"), "poor");
+  assert.equal(gradeFromText("excellent, lightly used"), "excellent");
+});
+
+test("the condition field beats title cues", () => {
+  assert.deepEqual(resolveGrade("Very good", "Neverfull MM like new"), { grade: "very_good", from: "condition" });
+  assert.deepEqual(resolveGrade(undefined, "Neverfull MM like new"), { grade: "excellent", from: "title" });
+  assert.deepEqual(resolveGrade("", "Neverfull MM"), { grade: null, from: null });
+});
+
+test("distance and condition-adjusted prices", () => {
+  assert.equal(gradeDistance("new", "good"), 3);
+  assert.equal(gradeDistance("good", "new"), 3);
+
+  const comp = (conditionGrade?: Comp["conditionGrade"]) =>
+    ({ title: "t", url: "u", price: { amount: 1000, currency: "USD" }, conditionGrade }) as Comp;
+  // a good comp restated as excellent: 1000 x 1.0 / 0.83
+  assert.equal(Math.round(conditionAdjustedPrice(comp("good"), "excellent")), 1205);
+  // capped at +-40%
+  assert.equal(conditionAdjustedPrice(comp("poor"), "new_with_tags"), 1400);
+  assert.equal(conditionAdjustedPrice(comp(), "excellent"), 1000);
+});
@@ -0,0 +1,61 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import dns from "dns";
+import net from "net";
+import { addressBlocked, postToPinnedUrl, resolvePublicHttpsUrl } from "../lib/egress";
+
+/**
+ * ===== OUTBOUND URL GUARD =====
+ */
+const realLookup = dns.promises.lookup;
+after(() => {
+  dns.promises.lookup = realLookup;
+});
+
+function resolvesTo(...addresses: string[]) {
+  let calls = 0;
+  dns.promises.lookup = (async () => {
+    calls++;
+    return addresses.map((address) => ({ address, family: net.isIP(address) }));
+  }) as any;
+  return () => calls;
+}
+
+test("private, loopback, link-local and mapped addresses are blocked", () => {
+  const blocked = ["10.0.0.1", "127.0.0.1", "169.254.169.254", "172.20.1.1", "192.168.1.1", "100.64.0.1"];
+  for (const ip of [...blocked, "::1", "fd00::1", "fe80::1", "::ffff:10.0.0.1"]) assert.equal(addressBlocked(ip), true, ip);
+  for (const ip of ["93.184.216.34", "2606:2800:220:1:248:1893:25c8:1946"]) assert.equal(addressBlocked(ip), false, ip);
+});
+
+test("a host with any private address is refused", async () => {
+  resolvesTo("93.184.216.34", "169.254.169.254");
+  const { target, problem } = await resolvePublicHttpsUrl("https://hooks.example.com/x");
+  assert.equal(target, null);
+  assert.equal(problem, "host is not a public address");
+});
+
+test("a public host resolves once and is pinned to the checked address", async () => {
+  const lookups = resolvesTo("93.184.216.34");
+  const { target } = await resolvePublicHttpsUrl("https://hooks.example.com/x");
+  assert.equal(target?.address, "93.184.216.34");
+  assert.equal(lookups(), 1);
+});
+
+test("the POST connects to the pinned address, not whatever the host resolves to now", async () => {
+  // DNS rebinding: the name no longer resolves (.invalid never does), yet the
+  // connection still reaches the address that was checked
+  const connections: string[] = [];
+  const server = net.createServer((socket) => {
+    connections.push(socket.localAddress || "");
+    socket.destroy();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  const target = { url: new URL(`https://rebound.invalid:${port}/hook`), address: "127.0.0.1", family: 4 as const };
+  await assert.rejects(postToPinnedUrl(target, {}, "{}", 2000));
+  server.close();
+
+  assert.equal(connections.length, 1);
+  assert.match(connections[0], /127\.0\.0\.1$/);
+});
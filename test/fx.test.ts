@@ -0,0 +1,47 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Comp } from "../lib/types";
+
+/**
+ * ===== FX CONVERSION =====
+ */
+process.env.SUPABASE_URL = "";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "";
+
+let fx: typeof import("../lib/fx");
+
+before(async () => {
+  // lib/supabase reads the env above at import
+  fx = await import("../lib/fx");
+});
+
+const comp = (amount: number, currency: string) =>
+  ({ title: "t", url: `https://www.ebay.com/itm/${amount}`, price: { amount, currency } }) as Comp;
+
+test("rates go through the EUR base in either direction", () => {
+  const table = fx.STATIC_FX_TABLE;
+  assert.equal(fx.fxRate(table, "EUR", "USD"), table.rates.USD);
+  assert.equal(fx.fxRate(table, "usd", "gbp"), table.rates.GBP / table.rates.USD);
+  assert.equal(fx.fxRate(table, "USD", "USD"), 1);
+  assert.equal(fx.fxRate(table, "USD", "XXX"), null);
+});
+
+test("comps are converted into the asking currency, unknown currencies dropped", () => {
+  const table = fx.STATIC_FX_TABLE;
+  const out = fx.convertComps([comp(1000, "USD"), comp(1000, "GBP"), comp(1000, "XXX")], "USD", table);
+  assert.equal(out.dropped, 1);
+  assert.equal(out.comps.length, 2);
+  assert.deepEqual(out.comps[0].price, { amount: 1000, currency: "USD" });
+  assert.deepEqual(out.comps[1].price, {
+    amount: Number(((1000 * table.rates.USD) / table.rates.GBP).toFixed(2)),
+    currency: "USD",
+  });
+  assert.deepEqual(out.comps[1].originalPrice, { amount: 1000, currency: "GBP" });
+  assert.deepEqual(Object.keys(out.rates), ["GBP"]);
+});
+
+test("without a database the static table is used", async () => {
+  const table = await fx.loadFxTable();
+  assert.equal(table.source, "static");
+  assert.equal(table.base, "EUR");
+});
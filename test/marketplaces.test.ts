@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findingGlobalId, marketplaceById, marketplaceFromUrl, marketplaceLocale } from "../lib/marketplaces";
+import { ebaySource } from "../lib/sources/ebay";
+import { validateAnalyzeFields } from "../lib/validation";
+import { errorCodeOf } from "../lib/errors";
+
+/**
+ * ===== EBAY MARKETPLACE REGISTRY =====
+ */
+test("country sites resolve with www., mobile and language subdomains", () => {
+  assert.equal(marketplaceFromUrl("https://www.ebay.es/itm/123456789012")?.id, "EBAY_ES");
+  assert.equal(marketplaceFromUrl("https://m.ebay.com.au/itm/123456789012")?.id, "EBAY_AU");
+  assert.equal(marketplaceFromUrl("https://befr.ebay.be/itm/123456789012")?.globalId, "EBAY-FRBE");
+  assert.equal(marketplaceFromUrl("https://ebay.us/abc"), null);
+  assert.equal(marketplaceFromUrl("https://www.ebay.in/itm/123456789012"), null);
+});
+
+test("language sites keep their country's Browse ID and get their own Finding ID", () => {
+  const fr = ebaySource.parseUrl("https://cafr.ebay.ca/itm/123456789012");
+  assert.deepEqual(fr, { itemId: "123456789012", marketplaceId: "EBAY_CA", locale: "fr-CA" });
+  assert.equal(findingGlobalId(fr.marketplaceId, fr.locale), "EBAY-FRCA");
+
+  const nl = ebaySource.parseUrl("https://benl.ebay.be/itm/123456789012");
+  assert.equal(findingGlobalId(nl.marketplaceId, nl.locale), "EBAY-NLBE");
+  assert.equal(marketplaceLocale(nl.marketplaceId, nl.locale), "nl-BE");
+
+  // the country's own site stays the default
+  assert.deepEqual(ebaySource.parseUrl("https://www.ebay.ca/itm/123456789012"), {
+    itemId: "123456789012",
+    marketplaceId: "EBAY_CA",
+  });
+  assert.equal(findingGlobalId("EBAY_CA"), "EBAY-ENCA");
+  assert.equal(marketplaceById("EBAY_BE")?.locale, "fr-BE");
+});
+
+test("an unknown marketplace is a catalogued error", () => {
+  assert.throws(
+    () => findingGlobalId("EBAY_IN"),
+    (e: any) => errorCodeOf(e) === "UNSUPPORTED_MARKETPLACE"
+  );
+});
+
+test("an omitted currency on an eBay URL is the site's", () => {
+  const checked = validateAnalyzeFields(
+    { url: "https://www.ebay.co.uk/itm/123456789012", title: "Chanel Classic Flap", price: { amount: 4000 } },
+    { requireListing: true }
+  );
+  assert.equal(checked.ok, true);
+  if (checked.ok) assert.deepEqual(checked.body.price, { amount: 4000, currency: "GBP" });
+});
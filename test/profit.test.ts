@@ -0,0 +1,96 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+
+/**
+ * ===== FEE SCHEDULES + NET PROFIT =====
+ */
+process.env.SUPABASE_URL = "";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "";
+
+let computeProfit: typeof import("../lib/profit").computeProfit;
+let feeScheduleFor: typeof import("../lib/profit").feeScheduleFor;
+let profitForValuation: typeof import("../lib/profit").profitForValuation;
+let STATIC_FX_TABLE: typeof import("../lib/fx").STATIC_FX_TABLE;
+
+before(async () => {
+  // lib/supabase reads the env above at import (loadFxTable falls back to the static table)
+  ({ computeProfit, feeScheduleFor, profitForValuation } = await import("../lib/profit"));
+  ({ STATIC_FX_TABLE } = await import("../lib/fx"));
+});
+
+const usd = (amount: number) => ({ amount, currency: "USD" });
+
+function profit(category: string, resale: number, asking = 1000, marketplaceId = "EBAY_US") {
+  return computeProfit({
+    asking: usd(asking),
+    resale,
+    resaleBasis: "sold-market-value",
+    marketplaceId,
+    category,
+    fxTable: STATIC_FX_TABLE,
+  });
+}
+
+test("final value fees are marginal over each schedule's tiers", () => {
+  // 2000 x 15% + 1000 x 9% + 0.40 per order + 20 shipping
+  assert.deepEqual(profit("bags", 3000).fees?.total, usd(410.4));
+  // 1000 x 15% + 6500 x 6.5% + 2500 x 3% + 0.40 + 25
+  assert.deepEqual(profit("watches", 10000).fees?.total, usd(672.9));
+  // flat 8%, no per-order fee, 15 shipping
+  assert.deepEqual(profit("sneakers", 300, 150).fees?.total, usd(39));
+  // 5000 x 15% + 1000 x 9% + 0.40 + 15
+  assert.deepEqual(profit("jewelry", 6000).fees?.total, usd(855.4));
+});
+
+test("net profit, margin and break-even follow from the fees", () => {
+  const p = profit("bags", 3000);
+  assert.deepEqual(p.netProfit, usd(1589.6));
+  assert.equal(p.marginPct, 53);
+  assert.equal(p.roiPct, 159);
+  // x - (15% of x + 0.40 + 20) = 1000
+  assert.deepEqual(p.breakEvenResalePrice, usd(1200.47));
+});
+
+test("watches, sneakers and jewelry off EBAY_US use the EBAY_US schedule", () => {
+  for (const marketplaceId of ["EBAY_GB", "EBAY_DE", "EBAY_CA", "EBAY_AU"]) {
+    for (const category of ["watches", "sneakers", "jewelry"]) {
+      const schedule = feeScheduleFor(marketplaceId, category);
+      assert.equal(schedule.marketplaceId, "EBAY_US");
+      assert.equal(schedule.category, category);
+    }
+  }
+  assert.equal(feeScheduleFor("EBAY_GB", "bags").id, "ebay-gb-handbags");
+  assert.equal(feeScheduleFor("EBAY_AU", "bags").id, "ebay-us-handbags");
+});
+
+test("fees in another currency are converted into the asking currency", () => {
+  const gb = computeProfit({
+    asking: { amount: 1000, currency: "EUR" },
+    resale: 2000,
+    resaleBasis: "sold-market-value",
+    marketplaceId: "EBAY_GB",
+    category: "bags",
+    fxTable: STATIC_FX_TABLE,
+  });
+  const gbpToEur = STATIC_FX_TABLE.rates.EUR / STATIC_FX_TABLE.rates.GBP;
+  assert.equal(gb.fees?.shipping?.amount, Math.round(12 * gbpToEur * 100) / 100);
+  assert.deepEqual(gb.missingFxRates, []);
+});
+
+test("a heuristic estimate is no resale basis", async () => {
+  const body = { title: "Rolex Submariner", price: usd(10000), url: "https://www.ebay.com/itm/123456789012" };
+  const heuristic = {
+    estimate: { method: "limited-sold-signals", marketValue: usd(9300) },
+    resale: { potentialValue: null },
+    meta: { marketplaceId: "EBAY_US", category: "watches" },
+  };
+  const p = await profitForValuation(heuristic, body as any, null);
+  assert.equal(p.netProfit, null);
+  assert.equal(p.resaleBasis, null);
+  assert.equal(p.fees, null);
+
+  // active comps are real asks, so they still are
+  const withActive = await profitForValuation({ ...heuristic, resale: { potentialValue: usd(12000) } }, body as any, null);
+  assert.equal(withActive.resaleBasis, "active-comps-median");
+  assert.ok(withActive.netProfit);
+});
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BUNDLED_SCORING_CONFIG, resolveScoring, scoringConfigFromJson, scoringConfigProblems } from "../lib/scoring";
+import { categoryOf } from "../lib/categories";
+
+/**
+ * ===== SCORING CONFIG VALIDATION =====
+ * Pairs (great_deal / fair_price, price guard ratios) are checked on the merged
+ * values, for the defaults and for every override on top of them.
+ */
+const WATCHES = { category: "watches" as const, brand: "Rolex", marketplaceId: "EBAY_US" };
+
+test("an override that crosses the deal thresholds is refused", () => {
+  const problems = scoringConfigProblems({
+    overrides: [{ match: { category: "watches" }, values: { dealThresholds: { great_deal: 1.1 } } }],
+  });
+  assert.deepEqual(problems, ["overrides[0].values.dealThresholds: great_deal must be below fair_price"]);
+});
+
+test("price guard ratios are validated alone and as a pair", () => {
+  assert.deepEqual(scoringConfigProblems({ defaults: { priceGuard: { minRatio: 0 } } }), [
+    "defaults.priceGuard.minRatio: must be a positive ratio",
+  ]);
+  assert.deepEqual(scoringConfigProblems({ defaults: { priceGuard: { maxRatio: 0.2 } } }), [
+    "defaults.priceGuard: minRatio must be below maxRatio",
+  ]);
+});
+
+test("condition, overlap and closeness points are overridable weights", () => {
+  const config = scoringConfigFromJson("t", {
+    overrides: [{ match: { brand: "rolex" }, values: { weights: { conditionMismatch: -20, priceCloseness: 30 } } }],
+  });
+  const resolved = resolveScoring({ config, variant: "control" }, WATCHES, categoryOf({ category: "watches" }).weights);
+  assert.equal(resolved.weights.conditionMismatch, -20);
+  assert.equal(resolved.weights.priceCloseness, 30);
+  assert.equal(resolved.weights.titleOverlap, 6);
+  assert.deepEqual(resolved.applied, ["brand=rolex"]);
+});
+
+test("an override contradicting an earlier matching one is skipped", () => {
+  // each is valid on the defaults, together great_deal (1.0) >= fair_price (0.95)
+  const config = scoringConfigFromJson("t", {
+    overrides: [
+      { match: { category: "watches" }, values: { dealThresholds: { great_deal: 1.0, fair_price: 1.2 } } },
+      { match: { category: "watches", brand: "rolex" }, values: { dealThresholds: { fair_price: 0.95 } } },
+    ],
+  });
+  const resolved = resolveScoring({ config, variant: "control" }, WATCHES, categoryOf({ category: "watches" }).weights);
+  assert.deepEqual(resolved.applied, ["category=watches"]);
+  assert.deepEqual(resolved.dealThresholds, { great_deal: 1.0, fair_price: 1.2 });
+  assert.deepEqual(resolved.priceGuard, BUNDLED_SCORING_CONFIG.defaults.priceGuard);
+});
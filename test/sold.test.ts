@@ -0,0 +1,101 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { SoldComp } from "../lib/types";
+
+/**
+ * ===== SOLD PROVIDER CHAIN =====
+ * fetchSoldWithFallback over stub providers: order, fallback on errors and on
+ * empty answers, budget refusals, and the SOLD_STUB_FILE provider.
+ */
+const stubFile = path.join(os.tmpdir(), `sold-stub-${process.pid}.json`);
+
+process.env.SUPABASE_URL = "https://db.invalid";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "test";
+process.env.SOLD_STUB_FILE = stubFile;
+
+const comp = (title: string, amount: number): SoldComp => ({
+  title,
+  price: { amount, currency: "USD" },
+  url: `https://www.ebay.com/itm/${amount}`,
+  soldDate: "2026-10-01T00:00:00.000Z",
+});
+
+const PARAMS = { query: "Rolex Submariner", limit: 100, marketplaceId: "EBAY_US", currency: "USD", daysBack: 90 };
+
+let sold: typeof import("../lib/sold");
+
+before(async () => {
+  fs.writeFileSync(stubFile, JSON.stringify({ "Rolex Submariner": [comp("Rolex Submariner 126610LN", 9800)], "*": [] }));
+  // lib/supabase reads the env above at import
+  sold = await import("../lib/sold");
+});
+
+after(() => {
+  fs.rmSync(stubFile, { force: true });
+  delete process.env.SOLD_PROVIDERS;
+});
+
+test("default order is finding, then insights, then stored", () => {
+  delete process.env.SOLD_PROVIDERS;
+  assert.deepEqual(sold.soldProvidersFromEnv().map((p) => p.id), ["finding", "insights", "stored"]);
+  process.env.SOLD_PROVIDERS = "insights, stub ,unknown";
+  assert.deepEqual(sold.soldProvidersFromEnv().map((p) => p.id), ["insights", "stub"]);
+});
+
+test("the first non-empty provider answers, later ones are not asked", async () => {
+  let asked = 0;
+  const result = await sold.fetchSoldWithFallback(PARAMS, [
+    sold.createStubSoldProvider("finding", [comp("a", 100), comp("b", 110)]),
+    sold.createStubSoldProvider("insights", () => (asked++, [comp("c", 120)])),
+  ]);
+  assert.equal(result.provider, "finding");
+  assert.equal(result.comps.length, 2);
+  assert.equal(asked, 0);
+  assert.deepEqual(result.attempts, [{ provider: "finding", daysBack: 90, query: "Rolex Submariner", fetched: 2 }]);
+});
+
+test("an error or an empty answer falls through to the next provider", async () => {
+  const failing = Object.assign(new Error("finding error (500): boom"), { code: "UPSTREAM_UNAVAILABLE" });
+  const result = await sold.fetchSoldWithFallback(PARAMS, [
+    sold.createStubSoldProvider("finding", failing),
+    sold.createStubSoldProvider("insights", []),
+    sold.createStubSoldProvider("stored", [comp("a", 100)]),
+  ]);
+  assert.equal(result.provider, "stored");
+  assert.deepEqual(
+    result.attempts.map((a) => [a.provider, a.error ?? a.fetched]),
+    [
+      ["finding", "UPSTREAM_UNAVAILABLE"],
+      ["insights", 0],
+      ["stored", 1],
+    ]
+  );
+  assert.equal(result.cooldownActive, false);
+});
+
+test("a budget refusal is a skip, not an error", async () => {
+  const refused = Object.assign(new Error("finding call refused: budget_exhausted"), { code: "UPSTREAM_BUDGET_EXHAUSTED" });
+  const result = await sold.fetchSoldWithFallback(PARAMS, [
+    sold.createStubSoldProvider("finding", refused),
+    sold.createStubSoldProvider("insights", []),
+  ]);
+  assert.equal(result.provider, null);
+  assert.deepEqual(result.comps, []);
+  assert.equal(result.cooldownActive, true);
+  assert.equal(result.attempts[0].note, "Skipping SOLD fetch (daily budget spent)");
+  assert.equal(result.attempts[0].error, undefined);
+});
+
+test("the stub provider answers from SOLD_STUB_FILE by query", async () => {
+  process.env.SOLD_PROVIDERS = "stub";
+  const hit = await sold.fetchSoldWithFallback(PARAMS);
+  assert.equal(hit.provider, "stub");
+  assert.deepEqual(hit.comps, [comp("Rolex Submariner 126610LN", 9800)]);
+
+  const miss = await sold.fetchSoldWithFallback({ ...PARAMS, query: "Omega Speedmaster" });
+  assert.equal(miss.provider, null);
+  assert.deepEqual(miss.attempts, [{ provider: "stub", daysBack: 90, query: "Omega Speedmaster", fetched: 0 }]);
+});
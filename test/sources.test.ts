@@ -0,0 +1,15 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectSourceFromUrl } from "../lib/sources";
+
+/**
+ * ===== SOURCE DETECTION =====
+ */
+test("a source's domain matches on a dot boundary only", () => {
+  assert.equal(detectSourceFromUrl("https://www.vestiairecollective.com/women-bags/p-123.shtml")?.id, "vestiaire");
+  assert.equal(detectSourceFromUrl("https://vestiairecollective.com/p-123.shtml")?.id, "vestiaire");
+  assert.equal(detectSourceFromUrl("https://www.therealreal.com/products/women/handbags/123")?.id, "therealreal");
+
+  assert.equal(detectSourceFromUrl("https://evilvestiairecollective.com/p-123.shtml"), null);
+  assert.equal(detectSourceFromUrl("https://nottherealreal.com/products/123"), null);
+});
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bootstrapInterval, mad, median, percentile, rejectOutliers, weightedMedian } from "../lib/stats";
+
+/**
+ * ===== STATS =====
+ */
+const PRICES = [1000, 1020, 1040, 1050, 1060, 1080, 1100, 4000];
+
+test("median, percentile and MAD", () => {
+  assert.equal(median([3, 1, 2]), 2);
+  assert.equal(median([4, 1, 3, 2]), 2.5);
+  assert.equal(median([]), 0);
+  assert.equal(percentile([10, 20, 30, 40, 50], 0.25), 20);
+  assert.equal(percentile([10, 20], 0.5), 15);
+  // |x - 1055| -> median of 55, 35, 15, 5, 5, 25, 45, 2945
+  assert.equal(mad(PRICES), 30);
+});
+
+test("weighted median follows the weight, not the count", () => {
+  assert.equal(weightedMedian([100, 200, 300], [1, 1, 1]), 200);
+  assert.equal(weightedMedian([100, 200, 300], [1, 1, 5]), 300);
+  // zero-weight and non-finite values sit out
+  assert.equal(weightedMedian([100, NaN, 900], [1, 5, 0]), 100);
+});
+
+test("MAD rejects the far price and keeps the cluster", () => {
+  const r = rejectOutliers(PRICES);
+  assert.equal(r.method, "mad");
+  assert.deepEqual(r.rejected, [7]);
+  assert.deepEqual(r.kept, [0, 1, 2, 3, 4, 5, 6]);
+  // 1055 +- 3.5 x 30 / 0.6745
+  assert.ok(r.bounds && Math.abs(r.bounds.high - (1055 + 105 / 0.6745)) < 1e-9);
+});
+
+test("IQR fences reject the same far price", () => {
+  const r = rejectOutliers(PRICES, "iqr");
+  assert.equal(r.method, "iqr");
+  assert.deepEqual(r.rejected, [7]);
+  assert.ok(r.bounds && r.bounds.low < 1000 && r.bounds.high < 4000);
+});
+
+test("small or flat samples are left alone", () => {
+  assert.deepEqual(rejectOutliers([100, 100, 5000, 100]).rejected, []);
+  const flat = rejectOutliers([500, 500, 500, 500, 9000]);
+  assert.deepEqual(flat.rejected, []);
+  assert.equal(flat.bounds, null);
+});
+
+test("the bootstrap interval is seeded and brackets the median", () => {
+  const values = PRICES.slice(0, 7);
+  const weights = values.map(() => 1);
+  const a = bootstrapInterval(values, weights);
+  const b = bootstrapInterval(values, weights);
+  assert.deepEqual(a, b);
+  assert.ok(a && a.low <= median(values) && median(values) <= a.high);
+  assert.equal(a?.level, 0.8);
+  assert.equal(a?.iterations, 500);
+
+  assert.notDeepEqual(bootstrapInterval(values, weights, weightedMedian, { seed: 7, iterations: 50 }), a);
+  assert.equal(bootstrapInterval([1000], [1]), null);
+});
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_SOLD_ATTEMPTS, SOLD_WINDOWS, searchSoldComps, soldQueryLadder } from "../lib/strategy";
+import { getCategory } from "../lib/categories";
+import type { CategoryPlugin } from "../lib/categories";
+
+/**
+ * ===== SOLD SEARCH STRATEGY =====
+ */
+const BAR = { qualityScore: 60, minQualitySold: 8 };
+const nothingSold = async () => ({ comps: [], provider: null, attempts: [], cooldownActive: false });
+
+function ladderFor(categoryId: string, title: string) {
+  const category = getCategory(categoryId) as CategoryPlugin;
+  const attrs = category.extractAttributes(title, "");
+  return soldQueryLadder({ title, price: { amount: 1, currency: "USD" }, url: "" } as any, attrs, category);
+}
+
+test("a fully attributed bag with no comps reaches the brand + model rung", async () => {
+  const ladder = ladderFor("bags", "Louis Vuitton Neverfull MM Monogram Canvas Tote");
+  assert.deepEqual(
+    ladder.map((r) => r.level),
+    ["brand+model+size+material", "brand+model+size", "brand+model"]
+  );
+
+  const result = await searchSoldComps(ladder, nothingSold, () => ({ ranked: [] }), BAR);
+  assert.deepEqual(
+    result.attempts.map((a) => `${a.level}@${a.daysBack}`),
+    [
+      ...SOLD_WINDOWS.map((d) => `brand+model+size+material@${d}`),
+      "brand+model+size@365",
+      "brand+model@365",
+    ]
+  );
+  assert.equal(result.satisfied, false);
+});
+
+test("the attempt cap covers the longest ladder (watches)", async () => {
+  const ladder = ladderFor("watches", "Rolex Submariner Date 126610LN Stainless Steel 41mm");
+  assert.equal(ladder.length, 4);
+
+  const result = await searchSoldComps(ladder, nothingSold, () => ({ ranked: [] }), BAR);
+  assert.equal(result.attempts.length, MAX_SOLD_ATTEMPTS);
+  assert.equal(result.attempts[result.attempts.length - 1].level, ladder[3].level);
+});
+
+test("a rung with enough (not quality) comps is not relaxed", async () => {
+  const ladder = ladderFor("bags", "Louis Vuitton Neverfull MM Monogram Canvas Tote");
+  const ranked = Array.from({ length: BAR.minQualitySold }, () => ({ qualityScore: 10 }) as any);
+
+  const result = await searchSoldComps(ladder, nothingSold, () => ({ ranked }), BAR);
+  assert.ok(result.attempts.every((a) => a.level === ladder[0].level));
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { priceTrend, RECENCY_HALF_LIFE_DAYS, recencyWeight } from "../lib/trend";
+import type { SoldComp } from "../lib/types";
+
+/**
+ * ===== RECENCY + PRICE TREND =====
+ */
+const NOW = Date.parse("2026-10-15T00:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sold = (amount: number, daysAgo: number | null): SoldComp => ({
+  title: "Louis Vuitton Neverfull MM",
+  price: { amount, currency: "USD" },
+  url: `https://www.ebay.com/itm/${amount}`,
+  soldDate: daysAgo == null ? undefined : new Date(NOW - daysAgo * DAY_MS).toISOString(),
+});
+
+test("a sale loses half its weight every half-life", () => {
+  assert.equal(recencyWeight(sold(1000, 0), NOW), 1);
+  assert.equal(recencyWeight(sold(1000, RECENCY_HALF_LIFE_DAYS), NOW), 0.5);
+  assert.equal(recencyWeight(sold(1000, 2 * RECENCY_HALF_LIFE_DAYS), NOW), 0.25);
+});
+
+test("undated sales count half, future-dated ones in full", () => {
+  assert.equal(recencyWeight(sold(1000, null), NOW), 0.5);
+  assert.equal(recencyWeight(sold(1000, -3), NOW), 1);
+});
+
+test("the last 3 months against the 3 before set the direction", () => {
+  const rising = priceTrend([sold(1000, 120), sold(1020, 150), sold(1150, 10), sold(1170, 40)], NOW);
+  assert.equal(rising.direction, "rising");
+  assert.equal(rising.changePct, 14.9);
+
+  const stable = priceTrend([sold(1000, 120), sold(1000, 150), sold(1010, 10), sold(1030, 40)], NOW);
+  assert.equal(stable.direction, "stable");
+
+  const falling = priceTrend([sold(1000, 120), sold(1000, 150), sold(900, 10), sold(880, 40)], NOW);
+  assert.equal(falling.direction, "falling");
+});
+
+test("too few sales on either side is insufficient data, with the monthly series kept", () => {
+  const t = priceTrend([sold(1000, 120), sold(1100, 10), sold(1120, 12)], NOW);
+  assert.equal(t.direction, "insufficient_data");
+  assert.equal(t.changePct, null);
+  assert.deepEqual(t.monthly, [
+    { month: "2026-06", median: 1000, count: 1 },
+    { month: "2026-10", median: 1110, count: 2 },
+  ]);
+});